@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { validateContactSubmission } from '../../../utils/contactValidation';
+import { getContactStore } from '../../../utils/contactStore';
+
+// Submissions are written to the local file system, so this must run on Node
+export const runtime = 'nodejs';
+
+/**
+ * Accept a contact form submission, validate it and persist it to the contact store
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON.' }, { status: 400 });
+  }
+
+  // Validate with the same rules the form uses on the client
+  const result = validateContactSubmission(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Please correct the highlighted fields.', errors: result.errors }, { status: 422 });
+  }
+
+  try {
+    const stored = await getContactStore().save(result.data);
+    return NextResponse.json({ id: stored.id }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to store contact submission:', error);
+    return NextResponse.json({ error: 'We could not save your message. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getDemoBookingStore, tokensMatch } from '../../../../../../utils/demoBookingStore';
+import { buildDemoBookingIcs } from '../../../../../../utils/ics';
+
+export const runtime = 'nodejs';
+
+/**
+ * Calendar invite (.ics) for a booking, requires the confirmation token (?token=...)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const token = new URL(request.url).searchParams.get('token');
+
+  try {
+    const booking = await getDemoBookingStore().get(id);
+    if (!booking || !tokensMatch(booking.confirmationToken, token)) {
+      return NextResponse.json({ error: 'Booking not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(buildDemoBookingIcs(booking), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="secured2-demo.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Failed to build demo calendar invite:', error);
+    return NextResponse.json({ error: 'We could not create your calendar invite. Please try again.' }, { status: 500 });
+  }
+}
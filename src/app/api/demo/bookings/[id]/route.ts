@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getDemoBookingStore, tokensMatch } from '../../../../../utils/demoBookingStore';
+
+export const runtime = 'nodejs';
+
+interface BookingRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Booking details for the visitor holding the confirmation token
+ */
+export async function GET(request: Request, { params }: BookingRouteContext) {
+  const { id } = await params;
+  const token = new URL(request.url).searchParams.get('token');
+
+  try {
+    const booking = await getDemoBookingStore().get(id);
+    // Same response for unknown bookings and bad tokens so ids can't be probed
+    if (!booking || !tokensMatch(booking.confirmationToken, token)) {
+      return NextResponse.json({ error: 'Booking not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: booking.id,
+      start: booking.slotStart,
+      end: booking.slotEnd,
+      status: booking.status
+    });
+  } catch (error) {
+    console.error('Failed to load demo booking:', error);
+    return NextResponse.json({ error: 'We could not load your demo booking. Please try again.' }, { status: 500 });
+  }
+}
+
+/**
+ * Cancel a booking with its cancel token (?token=...), freeing the slot
+ */
+export async function DELETE(request: Request, { params }: BookingRouteContext) {
+  const { id } = await params;
+  const token = new URL(request.url).searchParams.get('token') ?? '';
+
+  try {
+    const result = await getDemoBookingStore().cancel(id, token);
+    if (!result.ok) {
+      return NextResponse.json({ error: 'Booking not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ id: result.booking.id, status: result.booking.status });
+  } catch (error) {
+    console.error('Failed to cancel demo booking:', error);
+    return NextResponse.json({ error: 'We could not cancel your demo. Please try again.' }, { status: 500 });
+  }
+}
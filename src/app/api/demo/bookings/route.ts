@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { DemoBookingConfirmation, validateDemoBookingRequest } from '../../../../utils/demoBooking';
+import { getDemoBookingStore } from '../../../../utils/demoBookingStore';
+
+export const runtime = 'nodejs';
+
+/**
+ * Reserve a demo slot. The reservation is atomic: if two visitors request the
+ * same slot, exactly one succeeds and the other receives a 409.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON.' }, { status: 400 });
+  }
+
+  const result = validateDemoBookingRequest(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Please correct the highlighted fields.', errors: result.errors }, { status: 422 });
+  }
+
+  try {
+    const reservation = await getDemoBookingStore().reserve(result.data);
+    if (!reservation.ok) {
+      const error = reservation.reason === 'taken'
+        ? 'That time was just booked by someone else. Please pick another slot.'
+        : 'That time is no longer available. Please pick another slot.';
+      return NextResponse.json({ error, errors: { slotStart: error } }, { status: 409 });
+    }
+
+    const { booking } = reservation;
+    const confirmation: DemoBookingConfirmation = {
+      id: booking.id,
+      start: booking.slotStart,
+      end: booking.slotEnd,
+      confirmationToken: booking.confirmationToken,
+      cancelToken: booking.cancelToken
+    };
+    return NextResponse.json(confirmation, { status: 201 });
+  } catch (error) {
+    console.error('Failed to reserve demo slot:', error);
+    return NextResponse.json({ error: 'We could not book your demo. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { generateDemoSlots } from '../../../../utils/demoAvailability';
+import { getDemoBookingStore } from '../../../../utils/demoBookingStore';
+
+export const runtime = 'nodejs';
+// Availability changes with every booking, never serve it from cache
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the demo slots that are still free
+ */
+export async function GET() {
+  try {
+    const booked = await getDemoBookingStore().bookedSlotStarts();
+    const slots = generateDemoSlots().filter(slot => !booked.has(slot.start));
+    return NextResponse.json({ slots });
+  } catch (error) {
+    console.error('Failed to load demo availability:', error);
+    return NextResponse.json({ error: 'Availability is temporarily unavailable.' }, { status: 500 });
+  }
+}
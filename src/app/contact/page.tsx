@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import ClientNavigation from '../../components/ClientNavigation';
+import ContactForm from '../../components/ContactForm';
+
+export const metadata: Metadata = {
+  title: 'Contact Sales - Secured2',
+  description: 'Talk to the Secured2 team about Quantum-secure® & AI-safe data protection for your organization.'
+};
+
+export default function ContactPage() {
+  return (
+    <div className="relative bg-black text-white min-h-screen">
+      <ClientNavigation />
+
+      <section className="pt-36 pb-20 bg-gradient-to-b from-black to-[#0c1929]">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl md:text-5xl font-bold mb-6 leading-snug bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+              Contact Sales
+            </h1>
+            <p className="text-xl text-gray-300">
+              Tell us about your data and we&apos;ll show you how Secured2 can protect it.
+            </p>
+          </div>
+
+          <ContactForm />
+        </div>
+      </section>
+    </div>
+  );
+}
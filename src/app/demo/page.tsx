@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import ClientNavigation from '../../components/ClientNavigation';
+import DemoScheduler from '../../components/DemoScheduler';
+
+export const metadata: Metadata = {
+  title: 'Schedule a Demo - Secured2',
+  description: 'Book a live walkthrough of Quantum-secure® & AI-safe data protection with the Secured2 team.'
+};
+
+export default function DemoPage() {
+  return (
+    <div className="relative bg-black text-white min-h-screen">
+      <ClientNavigation />
+
+      <section className="pt-36 pb-20 bg-gradient-to-b from-black to-[#0c1929]">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl md:text-5xl font-bold mb-6 leading-snug bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+              Schedule a Demo
+            </h1>
+            <p className="text-xl text-gray-300">
+              Pick a time that works for you and see Shrink, Shred &amp; Secure in action.
+            </p>
+          </div>
+
+          <DemoScheduler />
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from 'next';
+import JourneyEmbed from '../../../components/JourneyEmbed';
+
+export const metadata: Metadata = {
+  title: 'Shrink, Shred, Secure - Secured2',
+  description: 'The Secured2 data protection journey, for kiosks and embeds.',
+  robots: 'noindex'
+};
+
+interface EmbedJourneyPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// /embed/journey loops on its own; /embed/journey?controls adds a scrubber
+export default async function EmbedJourneyPage({ searchParams }: EmbedJourneyPageProps) {
+  const { controls } = await searchParams;
+  return <JourneyEmbed controls={controls !== undefined} />;
+}
@@ -1,6 +1,8 @@
 import type { Metadata, Viewport } from "next";
 import { Inter, Space_Grotesk } from "next/font/google";
 import { Suspense } from "react";
+import MotionPreferenceProvider from "../components/MotionPreferenceProvider";
+import SceneInspector from "../components/SceneInspector";
 import "./globals.css";
 
 const inter = Inter({
@@ -56,8 +58,12 @@ export default function RootLayout({
             </div>
           }
         >
-          {children}
+          <MotionPreferenceProvider>
+            {children}
+          </MotionPreferenceProvider>
         </Suspense>
+        {/* Development only, opened with ?inspect */}
+        <SceneInspector />
       </body>
     </html>
   );
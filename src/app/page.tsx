@@ -6,9 +6,14 @@ import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { IndustryType } from '../components/Industry3DIcon';
+import { PHASES } from '../utils/phases';
+import { INDUSTRY_TYPES } from '../utils/industries';
+import { preloadModels } from '../utils/modelAssets';
+import { isSceneInspectorEnabled } from '../utils/sceneInspector';
 
 // Import Navigation directly to ensure it loads immediately without flickering
 import Navigation from '../components/Navigation';
+import { useMotionPreference } from '../components/MotionPreferenceProvider';
 
 // Hero3D component - commented out as it's not currently used
 // const Hero3D = dynamic(() => import('../components/Hero3D'), {
@@ -26,6 +31,15 @@ const IndustryIconsScene = dynamic(() => import('../components/IndustryIconsScen
   loading: () => null
 });
 
+// Single renderer that draws all industry icons into their grid cells
+const SharedViewCanvas = dynamic(() => import('../components/SharedViewCanvas'), {
+  ssr: false,
+  loading: () => null
+});
+
+// Any 3 of the 5 key shares carried by the shred fragments rebuild the key
+const HERO_SHARD_MODE = { threshold: 3, shares: 5 };
+
 export default function Home() {
   const containerRef = useRef<HTMLDivElement>(null);
   const dataJourneyRef = useRef<HTMLDivElement>(null);
@@ -34,6 +48,37 @@ export default function Home() {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [scrollProgress, setScrollProgress] = useState<number>(0);
   const [hasScrolled, setHasScrolled] = useState<boolean>(false);
+  
+  // Scroll-linked decorations (text parallax, section fade-ins) are switched off while
+  // motion is reduced and parked at their rest progress instead
+  const { reducedMotion } = useMotionPreference();
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const decorativeTriggersRef = useRef<{ trigger: ScrollTrigger; restProgress: number }[]>([]);
+  
+  const applyMotionPreference = ({ trigger, restProgress }: { trigger: ScrollTrigger; restProgress: number }) => {
+    if (reducedMotionRef.current) {
+      trigger.disable(false);
+      trigger.animation?.progress(restProgress);
+    } else {
+      trigger.enable();
+    }
+  };
+  
+  const registerDecorativeTrigger = (trigger: ScrollTrigger, restProgress: number) => {
+    const entry = { trigger, restProgress };
+    decorativeTriggersRef.current.push(entry);
+    applyMotionPreference(entry);
+  };
+  
+  useEffect(() => {
+    decorativeTriggersRef.current.forEach(applyMotionPreference);
+  }, [reducedMotion]);
+  
+  // Fetch any artist-supplied models for the lock and industry icons before their scenes ask
+  useEffect(() => {
+    preloadModels(['lock', ...INDUSTRY_TYPES.map(industry => `industry-${industry}` as const)]);
+  }, []);
 
 // Create a safer approach for storing ScrollTrigger instances
 type ScrollTriggerInstance = ScrollTrigger;
@@ -96,7 +141,7 @@ const scrollTriggerStore = {
           pinSpacing: true, // Allow space for the animation
           anticipatePin: 1, // Helps prevent DOM insertion errors
           invalidateOnRefresh: true, // Revalidate DOM on refresh
-          markers: false,
+          markers: isSceneInspectorEnabled(), // Shown alongside the ?inspect overlay in development
           onUpdate: (self) => {
             setScrollProgress(self.progress);
           }
@@ -147,6 +192,8 @@ const scrollTriggerStore = {
           // Store the ScrollTrigger instance
           if (textTimeline.scrollTrigger) {
             scrollTriggerInstances.push(textTimeline.scrollTrigger);
+            // Text stays in place while motion is reduced
+            registerDecorativeTrigger(textTimeline.scrollTrigger, 0);
           }
         }
       }
@@ -165,10 +212,12 @@ const scrollTriggerStore = {
           }
         });
         
-        // Only animate if elements exist - with extended durations and smoother easing
-        if (phaseItems[0]) phaseTimeline.to(phaseItems[0], { opacity: 1, y: 0, duration: 0.5, ease: 'sine.inOut' }, 0.1);
-        if (phaseItems[1]) phaseTimeline.to(phaseItems[1], { opacity: 1, y: 0, duration: 0.5, ease: 'sine.inOut' }, 0.45); // Adjusted timing
-        if (phaseItems[2]) phaseTimeline.to(phaseItems[2], { opacity: 1, y: 0, duration: 0.5, ease: 'sine.inOut' }, 0.8); // Adjusted timing
+        // Reveal each phase item shortly after its phase starts in the shared phase model
+        PHASES.forEach((phase, index) => {
+          if (phaseItems[index]) {
+            phaseTimeline.to(phaseItems[index], { opacity: 1, y: 0, duration: 0.5, ease: 'sine.inOut' }, phase.start + 0.1);
+          }
+        });
         
         // Store the ScrollTrigger instance
         if (phaseTimeline.scrollTrigger) {
@@ -194,6 +243,7 @@ const scrollTriggerStore = {
         });
         scrollTriggerStore.mainInstances = [];
       }
+      decorativeTriggersRef.current = [];
       
       // Kill all ScrollTrigger instances to be thorough
       if (typeof ScrollTrigger !== 'undefined' && ScrollTrigger.getAll) {
@@ -242,6 +292,8 @@ const scrollTriggerStore = {
             
             if (trigger && trigger.scrollTrigger) {
               sectionTriggers.push(trigger.scrollTrigger);
+              // Sections are simply shown while motion is reduced
+              registerDecorativeTrigger(trigger.scrollTrigger, 1);
             }
           }
         });
@@ -267,6 +319,7 @@ const scrollTriggerStore = {
         
         if (cardsTrigger && cardsTrigger.scrollTrigger) {
           sectionTriggers.push(cardsTrigger.scrollTrigger);
+          registerDecorativeTrigger(cardsTrigger.scrollTrigger, 1);
         }
       }
       
@@ -278,6 +331,12 @@ const scrollTriggerStore = {
     return () => {
       clearTimeout(animationTimeout);
       
+      // Forget the section triggers before they are killed
+      const sectionInstances = scrollTriggerStore.sectionInstances;
+      decorativeTriggersRef.current = decorativeTriggersRef.current.filter(
+        ({ trigger }) => !sectionInstances.includes(trigger)
+      );
+      
       // Clean up section triggers
       if (scrollTriggerStore.sectionInstances.length > 0) {
         scrollTriggerStore.sectionInstances.forEach((trigger: ScrollTriggerInstance) => {
@@ -311,7 +370,7 @@ const scrollTriggerStore = {
             className={`fixed bottom-6 left-1/2 transform -translate-x-1/2 flex flex-col items-center text-white z-50 scroll-indicator transition-opacity duration-500 ${hasScrolled ? 'opacity-0' : 'opacity-100'}`}
           >
             <p className="mb-2 text-lg font-medium drop-shadow-lg">Scroll to see the journey</p>
-            <div className="animate-bounce">
+            <div className={reducedMotion ? undefined : 'animate-bounce'}>
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
               </svg>
@@ -341,34 +400,34 @@ const scrollTriggerStore = {
 
             <div className="flex flex-col sm:flex-row gap-4 mb-8">
               <a 
-                href="#demo" 
+                href="/demo" 
                 className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30 transform hover:scale-105 active:scale-95"
               >
                 Schedule Demo
               </a>
+              <a 
+                href="/try" 
+                className="px-6 py-3 bg-transparent border-2 border-blue-500/50 text-blue-400 rounded-full font-semibold hover:border-blue-400 hover:text-blue-300 transition-colors transform hover:scale-105 active:scale-95"
+              >
+                Try It On Your File
+              </a>
             </div>
             
             {/* Feature Labels - Using spans instead of p tags to avoid bullet points */}
             <div className="space-y-3">
-              <div className="flex items-center">
-                <span className="inline-block w-2 h-2 rounded-full bg-blue-400 mr-3"></span>
-                <span className="text-blue-300">Shrink your data to reduce attack surface</span>
-              </div>
-              <div className="flex items-center">
-                <span className="inline-block w-2 h-2 rounded-full bg-orange-400 mr-3"></span>
-                <span className="text-orange-300">Shred into quantum-resistant fragments</span>
-              </div>
-              <div className="flex items-center">
-                <span className="inline-block w-2 h-2 rounded-full bg-green-400 mr-3"></span>
-                <span className="text-green-300">Secure against quantum & AI threats</span>
-              </div>
+              {PHASES.map(phase => (
+                <div key={phase.id} className="flex items-center">
+                  <span className="inline-block w-2 h-2 rounded-full mr-3" style={{ backgroundColor: phase.color }}></span>
+                  <span className={phase.textClassName}>{phase.label} {phase.tagline}</span>
+                </div>
+              ))}
             </div>
             </div>
             
             {/* 3D Visualization */}
             <div ref={dataJourneyRef} className="lg:w-3/5 w-full h-[600px] relative overflow-hidden rounded-2xl bg-gradient-to-br from-[#0c1929] to-black/80 border border-blue-900/20">
               <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,rgba(59,130,246,0.1),transparent)] z-0" />
-              <DataProtectionJourney scrollContainerId="hero-section" />
+              <DataProtectionJourney scrollContainerId="hero-section" shardMode={HERO_SHARD_MODE} />
             </div>
           </div>
           
@@ -482,7 +541,7 @@ const scrollTriggerStore = {
           
           <div className="flex flex-col sm:flex-row gap-6 justify-center">
             <a 
-              href="#demo" 
+              href="/demo" 
               className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30 transform hover:scale-105 active:scale-95"
             >
               Schedule Demo
@@ -526,6 +585,9 @@ const scrollTriggerStore = {
           </div>
         </div>
       </footer>
+      
+      {/* Draws the industry icon views, keeping the page at two WebGL contexts */}
+      <SharedViewCanvas />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import ClientNavigation from '../../components/ClientNavigation';
+import FileProtectionDemo from '../../components/FileProtectionDemo';
+
+export const metadata: Metadata = {
+  title: 'Try It On Your Own File - Secured2',
+  description: 'Shrink, shred and secure a file of your own, entirely in your browser. Nothing is uploaded.'
+};
+
+export default function TryPage() {
+  return (
+    <div className="relative bg-black text-white min-h-screen">
+      <ClientNavigation />
+
+      <section className="pt-36 pb-20 bg-gradient-to-b from-black to-[#0c1929]">
+        <div className="container mx-auto px-4 max-w-4xl">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl md:text-5xl font-bold mb-6 leading-snug bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+              Try It On Your Own File
+            </h1>
+            <p className="text-xl text-gray-300">
+              Watch your file get compressed, encrypted and split into shards, then put back together.
+              Everything happens in your browser.
+            </p>
+          </div>
+
+          <FileProtectionDemo />
+        </div>
+      </section>
+    </div>
+  );
+}
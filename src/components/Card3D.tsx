@@ -2,6 +2,10 @@ import React, { useRef } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { Text, Float } from '@react-three/drei';
 import * as THREE from 'three';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
 
 // 3D Card Component
 const Card = ({ 
@@ -154,15 +158,31 @@ const Card3D = ({ cards }: { cards: Array<{
   icon: string;
   color?: string;
 }> }) => {
+  const quality = useRenderQuality();
+  
   return (
     <div className="w-full h-[500px]">
-      <Canvas
-        camera={{ position: [0, 1.5, 5], fov: 50 }}
-        shadows
-        dpr={[1, 2]}
-      >
-        <CardScene cards={cards} />
-      </Canvas>
+      {/* Plain cards for browsers without WebGL */}
+      <WebGLGate fallback={
+        <div className="w-full h-full grid grid-cols-1 sm:grid-cols-3 gap-6 items-center">
+          {cards.map(card => (
+            <div key={card.title} className="p-6 rounded-xl bg-[#0c1929] border border-blue-900/30 text-center">
+              <div className="text-4xl mb-3">{card.icon}</div>
+              <div className="font-semibold" style={{ color: card.color ?? '#60a5fa' }}>{card.title}</div>
+            </div>
+          ))}
+        </div>
+      }>
+        <Canvas
+          camera={{ position: [0, 1.5, 5], fov: 50 }}
+          shadows={QUALITY_SETTINGS[quality].shadows}
+          dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]}
+        >
+          <QualityGovernorProbe />
+          <SceneInspectorProbe label="Card3D" />
+          <CardScene cards={cards} />
+        </Canvas>
+      </WebGLGate>
     </div>
   );
 };
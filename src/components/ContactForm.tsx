@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState } from 'react';
+import { INDUSTRY_LABELS, INDUSTRY_TYPES } from '../utils/industries';
+import {
+  CONTACT_LIMITS,
+  ContactErrors,
+  ContactField,
+  validateContactField,
+  validateContactSubmission
+} from '../utils/contactValidation';
+
+// Raw form values - industry stays a string until it has been validated
+type ContactFormValues = Record<ContactField, string>;
+
+const initialValues: ContactFormValues = {
+  name: '',
+  company: '',
+  email: '',
+  industry: '',
+  message: ''
+};
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+// Shared input styling matching the site's dark blue cards
+const inputClassName = 'w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-colors';
+
+/**
+ * Contact form - validates on the client with the same rules as /api/contact
+ * and shows server-side validation errors next to the matching fields
+ */
+const ContactForm = () => {
+  const [values, setValues] = useState<ContactFormValues>(initialValues);
+  const [errors, setErrors] = useState<ContactErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const handleChange = (field: ContactField) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const value = event.target.value;
+    setValues(prev => ({ ...prev, [field]: value }));
+
+    // Clear the error as soon as the field becomes valid
+    if (errors[field] && !validateContactField(field, value)) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleBlur = (field: ContactField) => () => {
+    setErrors(prev => ({ ...prev, [field]: validateContactField(field, values[field]) }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const result = validateContactSubmission(values);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setStatus('submitting');
+    setStatusMessage(null);
+
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result.data)
+      });
+
+      if (response.ok) {
+        setStatus('success');
+        setValues(initialValues);
+        setErrors({});
+        return;
+      }
+
+      const body = await response.json().catch(() => null);
+      if (body?.errors) {
+        setErrors(body.errors);
+      }
+      setStatus('error');
+      setStatusMessage(body?.error ?? 'Something went wrong. Please try again.');
+    } catch (error) {
+      console.error('Contact form submission failed:', error);
+      setStatus('error');
+      setStatusMessage('We could not reach the server. Please check your connection and try again.');
+    }
+  };
+
+  // Border color reflects the field's validation state
+  const borderFor = (field: ContactField) => (errors[field] ? 'border-red-500/70' : 'border-blue-900/40 focus:border-blue-500/60');
+
+  const renderError = (field: ContactField) => errors[field] && (
+    <p id={`${field}-error`} className="mt-2 text-sm text-red-400">{errors[field]}</p>
+  );
+
+  if (status === 'success') {
+    return (
+      <div className="bg-[#0c1929] p-8 rounded-xl border border-green-500/30 text-center">
+        <h2 className="text-2xl font-bold text-green-300 mb-3">Thank you!</h2>
+        <p className="text-gray-300 mb-6">Our team will get back to you within one business day.</p>
+        <button
+          type="button"
+          onClick={() => setStatus('idle')}
+          className="px-6 py-3 bg-transparent border-2 border-blue-500/50 text-blue-400 rounded-full font-semibold hover:border-blue-400 hover:text-blue-300 transition-colors"
+        >
+          Send another message
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form noValidate onSubmit={handleSubmit} className="bg-[#0c1929] p-8 rounded-xl border border-blue-900/30 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+          <input
+            id="name"
+            type="text"
+            autoComplete="name"
+            maxLength={CONTACT_LIMITS.name.max}
+            value={values.name}
+            onChange={handleChange('name')}
+            onBlur={handleBlur('name')}
+            aria-invalid={Boolean(errors.name)}
+            aria-describedby={errors.name ? 'name-error' : undefined}
+            className={`${inputClassName} ${borderFor('name')}`}
+          />
+          {renderError('name')}
+        </div>
+
+        <div>
+          <label htmlFor="company" className="block text-sm font-medium text-gray-300 mb-2">
+            Company <span className="text-gray-500">(optional)</span>
+          </label>
+          <input
+            id="company"
+            type="text"
+            autoComplete="organization"
+            maxLength={CONTACT_LIMITS.company.max}
+            value={values.company}
+            onChange={handleChange('company')}
+            onBlur={handleBlur('company')}
+            aria-invalid={Boolean(errors.company)}
+            aria-describedby={errors.company ? 'company-error' : undefined}
+            className={`${inputClassName} ${borderFor('company')}`}
+          />
+          {renderError('company')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">Work email</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="email"
+            maxLength={CONTACT_LIMITS.email.max}
+            value={values.email}
+            onChange={handleChange('email')}
+            onBlur={handleBlur('email')}
+            aria-invalid={Boolean(errors.email)}
+            aria-describedby={errors.email ? 'email-error' : undefined}
+            className={`${inputClassName} ${borderFor('email')}`}
+          />
+          {renderError('email')}
+        </div>
+
+        <div>
+          <label htmlFor="industry" className="block text-sm font-medium text-gray-300 mb-2">Industry</label>
+          <select
+            id="industry"
+            value={values.industry}
+            onChange={handleChange('industry')}
+            onBlur={handleBlur('industry')}
+            aria-invalid={Boolean(errors.industry)}
+            aria-describedby={errors.industry ? 'industry-error' : undefined}
+            className={`${inputClassName} ${borderFor('industry')}`}
+          >
+            <option value="" disabled>Select an industry</option>
+            {INDUSTRY_TYPES.map(industry => (
+              <option key={industry} value={industry}>{INDUSTRY_LABELS[industry]}</option>
+            ))}
+          </select>
+          {renderError('industry')}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="message" className="block text-sm font-medium text-gray-300 mb-2">How can we help?</label>
+        <textarea
+          id="message"
+          rows={6}
+          maxLength={CONTACT_LIMITS.message.max}
+          value={values.message}
+          onChange={handleChange('message')}
+          onBlur={handleBlur('message')}
+          aria-invalid={Boolean(errors.message)}
+          aria-describedby={errors.message ? 'message-error' : undefined}
+          className={`${inputClassName} ${borderFor('message')} resize-y`}
+        />
+        {renderError('message')}
+      </div>
+
+      {status === 'error' && statusMessage && (
+        <p role="alert" className="text-red-400">{statusMessage}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'submitting'}
+        className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {status === 'submitting' ? 'Sending…' : 'Contact Sales'}
+      </button>
+    </form>
+  );
+};
+
+export default ContactForm;
@@ -1,38 +1,14 @@
 "use client";
 
 import React, { memo, useMemo } from 'react';
+import { PHASES, PHASE_COLORS, PhaseId, getPhaseIndex } from '../utils/phases';
 
-// Define the phases of the QuantaMorphic® Technology
-const PHASES = [
-  {
-    id: 'data',
-    label: 'Your Data',
-    color: '#0ea5e9',
-    description: 'Your sensitive data before QuantaMorphic® protection.',
-    threshold: 0
-  },
-  {
-    id: 'shrink',
-    label: 'Shrink',
-    color: '#3b82f6',
-    description: 'Data is compressed to minimize storage requirements.',
-    threshold: 0.25
-  },
-  {
-    id: 'shred',
-    label: 'Shred',
-    color: '#8b5cf6',
-    description: 'Data is shredded into fragments and distributed securely.',
-    threshold: 0.5
-  },
-  {
-    id: 'secure',
-    label: 'Secure',
-    color: '#10b981',
-    description: 'Data is secured with military-grade encryption and authentication.',
-    threshold: 0.75
-  }
-];
+// Number of data particles shown in each phase
+const PARTICLE_COUNTS: Record<PhaseId, number> = {
+  shrink: 9,  // Compressed data
+  shred: 25,  // More particles but smaller
+  secure: 16
+};
 
 interface DataJourneyProps {
   scrollProgress?: number;
@@ -45,39 +21,30 @@ interface DataJourneyProps {
  */
 function DataJourney({ scrollProgress = 0 }: DataJourneyProps) {
   // Find the current phase based on scroll progress
-  const currentPhaseIndex = useMemo(() => {
-    return PHASES.reduce((highestIndex, phase, index) => {
-      return scrollProgress >= phase.threshold ? index : highestIndex;
-    }, 0);
-  }, [scrollProgress]);
+  const currentPhaseIndex = useMemo(() => getPhaseIndex(scrollProgress), [scrollProgress]);
   
   const currentPhase = PHASES[currentPhaseIndex];
   const progressPercentage = Math.round(scrollProgress * 100);
   
   // Calculate the number of data particles to show based on the phase
-  const particleCount = useMemo(() => {
-    if (currentPhaseIndex === 0) return 16; // Original data
-    if (currentPhaseIndex === 1) return 9;  // Shrink phase
-    if (currentPhaseIndex === 2) return 25; // Shred phase (more particles but smaller)
-    return 16; // Secure phase
-  }, [currentPhaseIndex]);
+  const particleCount = PARTICLE_COUNTS[currentPhase.id];
   
   // Generate an array of particles for visualization
   const particles = useMemo(() => {
     return Array.from({ length: particleCount }, (_, i) => {
       // Different sizes based on phase
-      const size = currentPhaseIndex === 2 ? '8px' : '12px';
+      const size = currentPhase.id === 'shred' ? '8px' : '12px';
       
       // Different colors based on phase
       let color = currentPhase.color;
-      if (currentPhaseIndex === 3) {
+      if (currentPhase.id === 'secure') {
         // For secure phase, alternate between colors for visual effect
-        color = i % 2 === 0 ? '#10b981' : '#0ea5e9';
+        color = i % 2 === 0 ? PHASE_COLORS.secure : '#0ea5e9';
       }
       
       return { id: i, size, color };
     });
-  }, [particleCount, currentPhaseIndex, currentPhase.color]);
+  }, [particleCount, currentPhase.id, currentPhase.color]);
   
   return (
     <div className="w-full h-[800px] bg-gradient-to-br from-gray-900 to-black relative overflow-hidden">
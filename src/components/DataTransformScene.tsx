@@ -2,8 +2,8 @@
 
 import { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { MathUtils } from 'three';
 import { MotionValue, useMotionValue, useTransform } from 'framer-motion';
+import { PhaseId, getPhaseAtProgress, getPhaseProgress } from '../utils/phases';
 import ShrinkAnimation from './ShrinkAnimation';
 import ShredAnimation from './ShredAnimation';
 import SecureAnimation from './SecureAnimation';
@@ -30,34 +30,19 @@ export default function DataTransformScene({ scrollProgress }: { scrollProgress:
   // Always call hooks unconditionally
   const scrollValue = useScrollValue(scrollProgress);
   
-  // Calculate progress for each phase of the animation with better spacing
-  const shrinkProgress = useTransform(scrollValue, (value) => {
-    // Phase 1: 0-35% of scroll - Shrink
-    return MathUtils.clamp(value * 2.86, 0, 1); // 1/0.35 ≈ 2.86
-  });
-  
-  const shredProgress = useTransform(scrollValue, (value) => {
-    // Phase 2: 35-70% of scroll - Shred
-    return MathUtils.clamp((value - 0.35) * 2.86, 0, 1); // 1/0.35 ≈ 2.86
-  });
-  
-  const secureProgress = useTransform(scrollValue, (value) => {
-    // Phase 3: 70-100% of scroll - Secure
-    return MathUtils.clamp((value - 0.70) * 3.33, 0, 1); // 1/0.3 ≈ 3.33
-  });
+  // Calculate progress for each phase of the animation from the shared phase model
+  const shrinkProgress = useTransform(scrollValue, (value) => getPhaseProgress(value, 'shrink'));
+  const shredProgress = useTransform(scrollValue, (value) => getPhaseProgress(value, 'shred'));
+  const secureProgress = useTransform(scrollValue, (value) => getPhaseProgress(value, 'secure'));
   
   // Track which phase we're in for conditional rendering
-  const currentPhase = useTransform(scrollValue, (value) => {
-    if (value < 0.35) return 'shrink';
-    if (value < 0.70) return 'shred';
-    return 'secure';
-  });
+  const currentPhase = useTransform(scrollValue, (value): PhaseId => getPhaseAtProgress(value).id);
   
   // Create local state for tracking values
   const currentShrinkProgress = useRef(0);
   const currentShredProgress = useRef(0);
   const currentSecureProgress = useRef(0);
-  const currentPhaseValue = useRef('shrink');
+  const currentPhaseValue = useRef<PhaseId>('shrink');
   
   useFrame((state, delta) => {
     timeRef.current += delta;
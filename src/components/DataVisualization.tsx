@@ -1,12 +1,16 @@
 "use client";
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { useSceneRandom } from './SceneSeedProvider';
+import { SceneSeed } from '../utils/random';
 
 interface DataVisualizationProps {
   progress: number;
   currentPhase: string;
   phaseColors: Record<string, string>;
+  // Seed for the particle layout, see utils/random.ts
+  seed?: SceneSeed;
 }
 
 /**
@@ -16,19 +20,27 @@ interface DataVisualizationProps {
 const DataVisualization: React.FC<DataVisualizationProps> = ({ 
   progress, 
   currentPhase, 
-  phaseColors 
+  phaseColors,
+  seed
 }) => {
   // Get the current color based on the phase
   const currentColor = phaseColors[currentPhase] || '#0ea5e9';
   
-  // Generate particles
-  const particles = Array.from({ length: 50 }, (_, i) => ({
-    id: i,
-    x: Math.random() * 100,
-    y: Math.random() * 100,
-    size: Math.random() * 4 + 1,
-    duration: Math.random() * 20 + 10
-  }));
+  const random = useSceneRandom('DataVisualization', seed);
+  
+  // Generate particles, the same on every render and every load
+  const particles = useMemo(() => {
+    const particleRandom = random.fork('particles');
+    return Array.from({ length: 50 }, (_, i) => ({
+      id: i,
+      x: particleRandom.range(0, 100),
+      y: particleRandom.range(0, 100),
+      size: particleRandom.range(1, 5),
+      duration: particleRandom.range(10, 30),
+      driftX: particleRandom.centered(100),
+      driftY: particleRandom.centered(100)
+    }));
+  }, [random]);
   
   // Animation variants based on the current phase
   const getAnimationVariants = () => {
@@ -101,8 +113,8 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
             opacity: 0.6
           }}
           animate={{
-            x: [0, Math.random() * 100 - 50, 0],
-            y: [0, Math.random() * 100 - 50, 0],
+            x: [0, particle.driftX, 0],
+            y: [0, particle.driftY, 0],
           }}
           transition={{
             duration: particle.duration,
@@ -0,0 +1,385 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { INDUSTRY_LABELS, INDUSTRY_TYPES } from '../utils/industries';
+import { CONTACT_LIMITS } from '../utils/contactValidation';
+import { DemoSlot } from '../utils/demoAvailability';
+import {
+  DemoBookingConfirmation,
+  DemoBookingErrors,
+  DemoBookingField,
+  validateDemoBookingField,
+  validateDemoBookingRequest
+} from '../utils/demoBooking';
+
+// Raw form values - industry stays a string until it has been validated
+type DemoFormValues = Record<DemoBookingField, string>;
+
+const initialValues: DemoFormValues = {
+  name: '',
+  company: '',
+  email: '',
+  industry: '',
+  slotStart: ''
+};
+
+type SlotsStatus = 'loading' | 'ready' | 'error';
+type SubmitStatus = 'idle' | 'submitting' | 'error';
+
+// Shared input styling matching the site's dark blue cards
+const inputClassName = 'w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-colors';
+
+// Slots are ISO instants, the picker shows them in the visitor's time zone
+const dayKey = (iso: string) => new Date(iso).toLocaleDateString('en-CA');
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString(undefined, {
+  weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+});
+
+/**
+ * Demo scheduler - pick a slot in local time, enter contact details and get
+ * a confirmation with a calendar invite and a cancel link
+ */
+const DemoScheduler = () => {
+  const [slots, setSlots] = useState<DemoSlot[]>([]);
+  const [slotsStatus, setSlotsStatus] = useState<SlotsStatus>('loading');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [values, setValues] = useState<DemoFormValues>(initialValues);
+  const [errors, setErrors] = useState<DemoBookingErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<DemoBookingConfirmation | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const loadSlots = useCallback(async () => {
+    setSlotsStatus('loading');
+    try {
+      const response = await fetch('/api/demo/slots', { cache: 'no-store' });
+      if (!response.ok) throw new Error(`Unexpected status ${response.status}`);
+      const body: { slots: DemoSlot[] } = await response.json();
+      setSlots(body.slots);
+      setSlotsStatus('ready');
+    } catch (error) {
+      console.error('Failed to load demo slots:', error);
+      setSlotsStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  // Group slots by local calendar day, in chronological order
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, DemoSlot[]>();
+    slots.forEach(slot => {
+      const key = dayKey(slot.start);
+      groups.set(key, [...(groups.get(key) ?? []), slot]);
+    });
+    return groups;
+  }, [slots]);
+
+  // Default to the first day with availability
+  const activeDay = selectedDay && slotsByDay.has(selectedDay) ? selectedDay : slotsByDay.keys().next().value ?? null;
+
+  const handleChange = (field: DemoBookingField) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const value = event.target.value;
+    setValues(prev => ({ ...prev, [field]: value }));
+
+    // Clear the error as soon as the field becomes valid
+    if (errors[field] && !validateDemoBookingField(field, value)) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleBlur = (field: DemoBookingField) => () => {
+    setErrors(prev => ({ ...prev, [field]: validateDemoBookingField(field, values[field]) }));
+  };
+
+  const selectSlot = (slot: DemoSlot) => {
+    setValues(prev => ({ ...prev, slotStart: slot.start }));
+    setErrors(prev => ({ ...prev, slotStart: undefined }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const result = validateDemoBookingRequest(values);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setStatus('submitting');
+    setStatusMessage(null);
+
+    try {
+      const response = await fetch('/api/demo/bookings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result.data)
+      });
+
+      if (response.ok) {
+        setConfirmation(await response.json());
+        setCancelled(false);
+        setStatus('idle');
+        setErrors({});
+        return;
+      }
+
+      const body = await response.json().catch(() => null);
+      if (body?.errors) {
+        setErrors(body.errors);
+      }
+      // Someone else took the slot - refresh so it disappears from the picker
+      if (response.status === 409) {
+        setValues(prev => ({ ...prev, slotStart: '' }));
+        loadSlots();
+      }
+      setStatus('error');
+      setStatusMessage(body?.error ?? 'Something went wrong. Please try again.');
+    } catch (error) {
+      console.error('Demo booking failed:', error);
+      setStatus('error');
+      setStatusMessage('We could not reach the server. Please check your connection and try again.');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirmation) return;
+    setCancelling(true);
+    try {
+      const response = await fetch(
+        `/api/demo/bookings/${confirmation.id}?token=${encodeURIComponent(confirmation.cancelToken)}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) throw new Error(`Unexpected status ${response.status}`);
+      setCancelled(true);
+    } catch (error) {
+      console.error('Demo cancellation failed:', error);
+      setStatusMessage('We could not cancel your demo. Please try again.');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const startOver = () => {
+    setConfirmation(null);
+    setCancelled(false);
+    setStatusMessage(null);
+    setValues(prev => ({ ...prev, slotStart: '' }));
+    loadSlots();
+  };
+
+  // Border color reflects the field's validation state
+  const borderFor = (field: DemoBookingField) => (errors[field] ? 'border-red-500/70' : 'border-blue-900/40 focus:border-blue-500/60');
+
+  const renderError = (field: DemoBookingField) => errors[field] && (
+    <p id={`${field}-error`} className="mt-2 text-sm text-red-400">{errors[field]}</p>
+  );
+
+  if (confirmation) {
+    const icsUrl = `/api/demo/bookings/${confirmation.id}/ics?token=${encodeURIComponent(confirmation.confirmationToken)}`;
+
+    return (
+      <div className={`bg-[#0c1929] p-8 rounded-xl border text-center ${cancelled ? 'border-gray-600/40' : 'border-green-500/30'}`}>
+        <h2 className={`text-2xl font-bold mb-3 ${cancelled ? 'text-gray-300' : 'text-green-300'}`}>
+          {cancelled ? 'Your demo has been cancelled' : 'Your demo is booked!'}
+        </h2>
+        <p className="text-gray-300 mb-6">{formatDateTime(confirmation.start)}</p>
+
+        {statusMessage && <p role="alert" className="text-red-400 mb-4">{statusMessage}</p>}
+
+        <div className="flex flex-wrap justify-center gap-4">
+          {!cancelled && (
+            <>
+              <a
+                href={icsUrl}
+                download="secured2-demo.ics"
+                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20"
+              >
+                Add to calendar
+              </a>
+              <button
+                type="button"
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="px-6 py-3 bg-transparent border-2 border-red-500/50 text-red-400 rounded-full font-semibold hover:border-red-400 hover:text-red-300 transition-colors disabled:opacity-60"
+              >
+                {cancelling ? 'Cancelling…' : 'Cancel demo'}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={startOver}
+            className="px-6 py-3 bg-transparent border-2 border-blue-500/50 text-blue-400 rounded-full font-semibold hover:border-blue-400 hover:text-blue-300 transition-colors"
+          >
+            {cancelled ? 'Pick a new time' : 'Book another demo'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form noValidate onSubmit={handleSubmit} className="bg-[#0c1929] p-8 rounded-xl border border-blue-900/30 space-y-8">
+      <fieldset>
+        <legend className="block text-lg font-semibold text-white mb-4">Pick a time</legend>
+
+        {slotsStatus === 'loading' && <p className="text-gray-400">Loading available times…</p>}
+
+        {slotsStatus === 'error' && (
+          <p className="text-red-400">
+            We could not load available times.{' '}
+            <button type="button" onClick={loadSlots} className="underline hover:text-red-300">Try again</button>
+          </p>
+        )}
+
+        {slotsStatus === 'ready' && slots.length === 0 && (
+          <p className="text-gray-400">No times are available right now. Please check back soon.</p>
+        )}
+
+        {slotsStatus === 'ready' && activeDay && (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-4" role="tablist" aria-label="Demo days">
+              {Array.from(slotsByDay.entries()).map(([key, daySlots]) => (
+                <button
+                  key={key}
+                  type="button"
+                  role="tab"
+                  aria-selected={key === activeDay}
+                  onClick={() => setSelectedDay(key)}
+                  className={`shrink-0 px-4 py-2 rounded-lg border text-sm transition-colors ${
+                    key === activeDay
+                      ? 'bg-blue-600/30 border-blue-500/60 text-white'
+                      : 'bg-black/30 border-blue-900/40 text-gray-300 hover:border-blue-500/40'
+                  }`}
+                >
+                  {formatDay(daySlots[0].start)}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2" role="tabpanel">
+              {(slotsByDay.get(activeDay) ?? []).map(slot => (
+                <button
+                  key={slot.start}
+                  type="button"
+                  aria-pressed={values.slotStart === slot.start}
+                  onClick={() => selectSlot(slot)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                    values.slotStart === slot.start
+                      ? 'bg-blue-500 border-blue-400 text-white'
+                      : 'bg-black/30 border-blue-900/40 text-gray-300 hover:border-blue-500/40'
+                  }`}
+                >
+                  {formatTime(slot.start)}
+                </button>
+              ))}
+            </div>
+
+            <p className="mt-3 text-sm text-gray-500">
+              Times shown in your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone}).
+            </p>
+          </>
+        )}
+
+        {renderError('slotStart')}
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+          <input
+            id="name"
+            type="text"
+            autoComplete="name"
+            maxLength={CONTACT_LIMITS.name.max}
+            value={values.name}
+            onChange={handleChange('name')}
+            onBlur={handleBlur('name')}
+            aria-invalid={Boolean(errors.name)}
+            aria-describedby={errors.name ? 'name-error' : undefined}
+            className={`${inputClassName} ${borderFor('name')}`}
+          />
+          {renderError('name')}
+        </div>
+
+        <div>
+          <label htmlFor="company" className="block text-sm font-medium text-gray-300 mb-2">
+            Company <span className="text-gray-500">(optional)</span>
+          </label>
+          <input
+            id="company"
+            type="text"
+            autoComplete="organization"
+            maxLength={CONTACT_LIMITS.company.max}
+            value={values.company}
+            onChange={handleChange('company')}
+            onBlur={handleBlur('company')}
+            aria-invalid={Boolean(errors.company)}
+            aria-describedby={errors.company ? 'company-error' : undefined}
+            className={`${inputClassName} ${borderFor('company')}`}
+          />
+          {renderError('company')}
+        </div>
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">Work email</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="email"
+            maxLength={CONTACT_LIMITS.email.max}
+            value={values.email}
+            onChange={handleChange('email')}
+            onBlur={handleBlur('email')}
+            aria-invalid={Boolean(errors.email)}
+            aria-describedby={errors.email ? 'email-error' : undefined}
+            className={`${inputClassName} ${borderFor('email')}`}
+          />
+          {renderError('email')}
+        </div>
+
+        <div>
+          <label htmlFor="industry" className="block text-sm font-medium text-gray-300 mb-2">Industry</label>
+          <select
+            id="industry"
+            value={values.industry}
+            onChange={handleChange('industry')}
+            onBlur={handleBlur('industry')}
+            aria-invalid={Boolean(errors.industry)}
+            aria-describedby={errors.industry ? 'industry-error' : undefined}
+            className={`${inputClassName} ${borderFor('industry')}`}
+          >
+            <option value="" disabled>Select an industry</option>
+            {INDUSTRY_TYPES.map(industry => (
+              <option key={industry} value={industry}>{INDUSTRY_LABELS[industry]}</option>
+            ))}
+          </select>
+          {renderError('industry')}
+        </div>
+      </div>
+
+      {status === 'error' && statusMessage && (
+        <p role="alert" className="text-red-400">{statusMessage}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'submitting'}
+        className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {status === 'submitting' ? 'Booking…' : 'Schedule Demo'}
+      </button>
+    </form>
+  );
+};
+
+export default DemoScheduler;
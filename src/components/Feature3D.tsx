@@ -2,6 +2,12 @@ import { useRef, useState, useEffect, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Text, Float, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
+import { useMotionPreference } from './MotionPreferenceProvider';
+import { useSceneRandom } from './SceneSeedProvider';
 // import { gsap } from 'gsap';
 
 // 3D Feature Component
@@ -23,6 +29,7 @@ const FeatureObject = ({
   onClick: () => void;
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const { reducedMotion } = useMotionPreference();
   
   // Animation references
   const groupRef = useRef<THREE.Group>(null);
@@ -31,7 +38,7 @@ const FeatureObject = ({
   
   // Subtle continuous animation
   useFrame(() => {
-    if (meshRef.current) {
+    if (meshRef.current && !reducedMotion) {
       const time = Date.now() * 0.001; // Use Date.now() instead of state.clock
       meshRef.current.rotation.x = Math.sin(time * 0.3) * 0.05;
       meshRef.current.rotation.y = Math.sin(time * 0.2) * 0.05;
@@ -61,7 +68,7 @@ const FeatureObject = ({
       position={position}
       onClick={onClick}
     >
-      <Float speed={1.5} rotationIntensity={0.2} floatIntensity={0.3}>
+      <Float speed={reducedMotion ? 0 : 1.5} rotationIntensity={0.2} floatIntensity={0.3}>
         {/* Feature card base */}
         <mesh ref={meshRef} castShadow receiveShadow>
           <boxGeometry args={[2.5, 1.5, 0.1]} />
@@ -152,6 +159,7 @@ const FeatureScene = ({ features, scrollProgress = 0 }: {
   const [activeIndex, setActiveIndex] = useState(0);
   const groupRef = useRef<THREE.Group>(null);
   const { camera } = useThree();
+  const quality = useRenderQuality();
   
   // Set up camera position
   useEffect(() => {
@@ -200,7 +208,7 @@ const FeatureScene = ({ features, scrollProgress = 0 }: {
       <fog attach="fog" args={["#000000", 3.5, 15]} />
       
       {/* Floating particles background */}
-      <Particles count={100} />
+      <Particles count={Math.round(100 * QUALITY_SETTINGS[quality].particleScale)} />
       
       <group ref={groupRef} position={[0, 0, 0]}>
         {features.map((feature, index) => (
@@ -239,22 +247,24 @@ const FeatureScene = ({ features, scrollProgress = 0 }: {
 const Particles = ({ count = 100 }) => {
   const mesh = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
+  const random = useSceneRandom('Feature3D');
 
   useEffect(() => {
     // Position particles randomly
     if (mesh.current) {
+      const positionRandom = random.fork('particles');
       for (let i = 0; i < count; i++) {
         dummy.position.set(
-          (Math.random() - 0.5) * 10,
-          (Math.random() - 0.5) * 10,
-          (Math.random() - 0.5) * 10
+          positionRandom.centered(10),
+          positionRandom.centered(10),
+          positionRandom.centered(10)
         );
         dummy.updateMatrix();
         mesh.current.setMatrixAt(i, dummy.matrix);
       }
       mesh.current.instanceMatrix.needsUpdate = true;
     }
-  }, [count, dummy]);
+  }, [count, dummy, random]);
 
   // Animate particles
   useFrame(() => {
@@ -290,6 +300,9 @@ const Feature3D = ({ features, scrollProgress }: {
   }>,
   scrollProgress?: number;
 }) => {
+  const { reducedMotion } = useMotionPreference();
+  const quality = useRenderQuality();
+  
   return (
     <div className="w-full h-[800px] relative">
       {/* Scroll indicator */}
@@ -298,7 +311,7 @@ const Feature3D = ({ features, scrollProgress }: {
       </div>
       
       {/* Scroll instruction */}
-      <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 text-white text-center z-50 animate-bounce">
+      <div className={`absolute bottom-8 left-1/2 transform -translate-x-1/2 text-white text-center z-50 ${reducedMotion ? '' : 'animate-bounce'}`}>
         <div className="flex flex-col items-center">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
@@ -307,17 +320,31 @@ const Feature3D = ({ features, scrollProgress }: {
         </div>
       </div>
       
-      <Canvas dpr={[1, 2]} shadows>
-        <color attach="background" args={['#050505']} />
-        <fog attach="fog" args={['#000', 5, 15]} />
-        <ambientLight intensity={0.4} />
-        <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} intensity={0.5} castShadow />
-        
-        <PerspectiveCamera makeDefault position={[0, 0, 6]} fov={50} />
-        <FeatureScene features={features} scrollProgress={scrollProgress} />
-        
-        {/* Disable controls for more predictable scroll behavior */}
-      </Canvas>
+      <WebGLGate fallback={
+        <div className="w-full h-full flex flex-col justify-center gap-6 px-6">
+          {features.map(feature => (
+            <div key={feature.number} className="p-6 rounded-xl bg-[#0c1929] border border-blue-900/30">
+              <div className="font-mono text-sm mb-1" style={{ color: feature.color ?? '#60a5fa' }}>{feature.number}</div>
+              <div className="text-xl font-semibold text-white mb-2">{feature.title}</div>
+              <p className="text-gray-300">{feature.description}</p>
+            </div>
+          ))}
+        </div>
+      }>
+        <Canvas dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]} shadows={QUALITY_SETTINGS[quality].shadows}>
+          <QualityGovernorProbe />
+          <SceneInspectorProbe label="Feature3D" />
+          <color attach="background" args={['#050505']} />
+          <fog attach="fog" args={['#000', 5, 15]} />
+          <ambientLight intensity={0.4} />
+          <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} intensity={0.5} castShadow />
+          
+          <PerspectiveCamera makeDefault position={[0, 0, 6]} fov={50} />
+          <FeatureScene features={features} scrollProgress={scrollProgress} />
+          
+          {/* Disable controls for more predictable scroll behavior */}
+        </Canvas>
+      </WebGLGate>
     </div>
   );
 };
@@ -0,0 +1,265 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { PHASE_BY_ID } from '../utils/phases';
+import {
+  MAX_DEMO_FILE_BYTES,
+  ProtectedFile,
+  SHARD_COUNT_LIMITS,
+  isFilePipelineSupported,
+  protectFile,
+  reassembleFile
+} from '../utils/filePipeline';
+
+// The journey is WebGL only, so never render it on the server
+const DataProtectionJourney = dynamic(() => import('./DataProtectionJourney'), { ssr: false });
+
+type DemoStatus = 'idle' | 'running' | 'protected' | 'reassembling' | 'verified' | 'failed' | 'error';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+// Short fingerprint for display
+const shortDigest = (digest: string) => `${digest.slice(0, 8)}…${digest.slice(-8)}`;
+
+/**
+ * "Try it on your own file" - runs the real Shrink/Shred/Secure pipeline in
+ * the browser and drives the data protection journey with its progress
+ */
+const FileProtectionDemo = () => {
+  const [supported, setSupported] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [shardCount, setShardCount] = useState<number>(SHARD_COUNT_LIMITS.default);
+  const [status, setStatus] = useState<DemoStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<ProtectedFile | null>(null);
+  const [restoredUrl, setRestoredUrl] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Feature detection has to wait for the browser
+  useEffect(() => {
+    setSupported(isFilePipelineSupported());
+  }, []);
+
+  // Abort a running pipeline when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Release the restored file's object URL when it is replaced
+  useEffect(() => () => {
+    if (restoredUrl) URL.revokeObjectURL(restoredUrl);
+  }, [restoredUrl]);
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    abortRef.current?.abort();
+    setFile(selected);
+    setResult(null);
+    setRestoredUrl(null);
+    setProgress(0);
+    setStatus('idle');
+    setMessage(selected.size > MAX_DEMO_FILE_BYTES
+      ? `Files up to ${formatBytes(MAX_DEMO_FILE_BYTES)} are supported in this demo.`
+      : null);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    selectFile(event.dataTransfer.files[0]);
+  };
+
+  const runPipeline = async () => {
+    if (!file) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setStatus('running');
+    setResult(null);
+    setRestoredUrl(null);
+    setProgress(0);
+
+    try {
+      const protectedFile = await protectFile(file, {
+        shardCount,
+        signal: controller.signal,
+        onProgress: update => {
+          // A new file, a new run or unmounting cancelled this run, which is only winding down
+          if (controller.signal.aborted) return;
+          setProgress(update.progress);
+          setMessage(update.message);
+        }
+      });
+      if (controller.signal.aborted) return;
+      setResult(protectedFile);
+      setStatus('protected');
+      setMessage(null);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('File protection demo failed:', error);
+      setStatus('error');
+      setMessage(error instanceof RangeError ? error.message : 'Something went wrong while protecting your file.');
+    }
+  };
+
+  const runReassemble = async () => {
+    if (!result) return;
+    setStatus('reassembling');
+    setMessage('Verifying shards and decrypting…');
+
+    const restored = await reassembleFile(result);
+    if (restored.ok) {
+      setRestoredUrl(URL.createObjectURL(restored.blob));
+      setStatus('verified');
+      setMessage(null);
+    } else {
+      setStatus('failed');
+      setMessage(restored.error);
+    }
+  };
+
+  if (!supported) {
+    return (
+      <div className="bg-[#0c1929] p-8 rounded-xl border border-blue-900/30 text-center text-gray-300">
+        Your browser doesn&apos;t support the compression and encryption APIs this demo needs.
+        Please try a recent version of Chrome, Edge, Firefox or Safari.
+      </div>
+    );
+  }
+
+  const isBusy = status === 'running' || status === 'reassembling';
+
+  return (
+    <div className="space-y-8">
+      <div className="relative h-[420px] rounded-xl overflow-hidden border border-blue-900/30 bg-black">
+        <DataProtectionJourney scrollContainerId="file-protection-demo" progress={progress} />
+      </div>
+
+      <div className="bg-[#0c1929] p-8 rounded-xl border border-blue-900/30 space-y-6">
+        <label
+          htmlFor="demo-file"
+          onDragOver={event => { event.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`block p-8 rounded-lg border-2 border-dashed text-center cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-400 bg-blue-500/10' : 'border-blue-900/60 hover:border-blue-500/50'
+          }`}
+        >
+          <input
+            id="demo-file"
+            type="file"
+            className="sr-only"
+            onChange={event => selectFile(event.target.files?.[0])}
+          />
+          {file ? (
+            <span className="text-white">{file.name} <span className="text-gray-400">({formatBytes(file.size)})</span></span>
+          ) : (
+            <span className="text-gray-300">Drop a file here or click to choose one</span>
+          )}
+          <span className="block mt-2 text-sm text-gray-500">Your file never leaves this browser.</span>
+        </label>
+
+        <div>
+          <label htmlFor="shard-count" className="block text-sm font-medium text-gray-300 mb-2">
+            Shards: <span className="text-white">{shardCount}</span>
+          </label>
+          <input
+            id="shard-count"
+            type="range"
+            min={SHARD_COUNT_LIMITS.min}
+            max={SHARD_COUNT_LIMITS.max}
+            value={shardCount}
+            disabled={isBusy}
+            onChange={event => setShardCount(Number(event.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          <button
+            type="button"
+            onClick={runPipeline}
+            disabled={!file || isBusy || file.size > MAX_DEMO_FILE_BYTES}
+            className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-semibold hover:from-blue-700 hover:to-blue-600 transition-all shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {status === 'running' ? 'Protecting…' : 'Shrink, Shred & Secure'}
+          </button>
+          {result && (
+            <button
+              type="button"
+              onClick={runReassemble}
+              disabled={isBusy}
+              className="px-8 py-4 bg-transparent border-2 border-green-500/50 text-green-400 rounded-full font-semibold hover:border-green-400 hover:text-green-300 transition-colors disabled:opacity-60"
+            >
+              {status === 'reassembling' ? 'Reassembling…' : 'Reassemble'}
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <p role={status === 'error' || status === 'failed' ? 'alert' : 'status'}
+            className={status === 'error' || status === 'failed' ? 'text-red-400' : 'text-gray-300'}>
+            {message}
+          </p>
+        )}
+
+        {result && (
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div className="p-4 rounded-lg bg-black/30 border border-blue-900/40">
+              <dt className="font-semibold" style={{ color: PHASE_BY_ID.shrink.color }}>Shrink</dt>
+              <dd className="text-gray-300 mt-1">
+                {formatBytes(result.originalSize)} → {formatBytes(result.compressedSize)}
+                {result.originalSize > 0 && (
+                  <span className="text-gray-500"> ({Math.round((result.compressedSize / result.originalSize) * 100)}%)</span>
+                )}
+              </dd>
+            </div>
+            <div className="p-4 rounded-lg bg-black/30 border border-blue-900/40">
+              <dt className="font-semibold" style={{ color: PHASE_BY_ID.shred.color }}>Shred</dt>
+              <dd className="text-gray-300 mt-1">
+                AES-GCM 256, {result.shards.length} shards of ~{formatBytes(result.shards[0]?.bytes.byteLength ?? 0)}
+              </dd>
+            </div>
+            <div className="p-4 rounded-lg bg-black/30 border border-blue-900/40">
+              <dt className="font-semibold" style={{ color: PHASE_BY_ID.secure.color }}>Secure</dt>
+              <dd className="text-gray-300 mt-1 font-mono break-all">{shortDigest(result.originalDigest)}</dd>
+            </div>
+            <div className="sm:col-span-3 p-4 rounded-lg bg-black/30 border border-blue-900/40">
+              <dt className="font-semibold text-gray-300 mb-2">Shards</dt>
+              <dd>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1 font-mono text-xs text-gray-400">
+                  {result.shards.map(shard => (
+                    <li key={shard.index}>
+                      #{shard.index + 1} · {formatBytes(shard.bytes.byteLength)} · {shortDigest(shard.digest)}
+                    </li>
+                  ))}
+                </ul>
+              </dd>
+            </div>
+          </dl>
+        )}
+
+        {status === 'verified' && restoredUrl && result && (
+          <div className="p-4 rounded-lg border border-green-500/30 bg-green-500/5">
+            <p className="text-green-300 font-semibold">Round trip verified</p>
+            <p className="text-gray-300 text-sm mt-1">
+              The reassembled file matches the original byte for byte (SHA-256 {shortDigest(result.originalDigest)}).
+            </p>
+            <a href={restoredUrl} download={result.name} className="inline-block mt-3 text-blue-400 underline hover:text-blue-300">
+              Download the restored file
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileProtectionDemo;
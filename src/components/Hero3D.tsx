@@ -2,6 +2,10 @@ import { useRef, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Float, Text } from '@react-three/drei';
 import * as THREE from 'three';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
 
 // Shader for the colorful curved shape
 const fragmentShader = `
@@ -163,14 +167,21 @@ const HeroScene = () => {
 
 // Main Component with Canvas
 const Hero3D = () => {
+  const quality = useRenderQuality();
+  
   return (
     <div className="w-full h-[600px]">
-      <Canvas
-        camera={{ position: [0, 0, 5], fov: 50 }}
-        dpr={[1, 2]}
-      >
-        <HeroScene />
-      </Canvas>
+      {/* Without WebGL the hero keeps its glow backdrop instead of a blank canvas */}
+      <WebGLGate fallback={<div className="w-full h-full bg-[radial-gradient(circle_at_center,rgba(59,130,246,0.25),transparent_60%)]" />}>
+        <Canvas
+          camera={{ position: [0, 0, 5], fov: 50 }}
+          dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]}
+        >
+          <QualityGovernorProbe />
+          <SceneInspectorProbe label="Hero3D" />
+          <HeroScene />
+        </Canvas>
+      </WebGLGate>
     </div>
   );
 };
@@ -1,9 +1,12 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
+import type { IndustryType } from '../utils/industries';
+import { loadModel } from '../utils/modelAssets';
+import { ResourceTracker, createResourceTracker } from '../utils/resourceTracker';
 
-// Define the industry types and their corresponding 3D models
-export type IndustryType = 'healthcare' | 'financial' | 'government' | 'enterprise' | 'legal' | 'education';
+// The industry types are defined alongside their labels so server code can share them
+export type { IndustryType };
 
 // Props for the Industry3DIcon component
 interface Industry3DIconProps {
@@ -27,12 +30,30 @@ export default function Industry3DIcon({
   
   // Create the icon when the component mounts or when props change
   useEffect(() => {
-    createIcon();
+    // Geometries and materials of whatever the icon currently shows
+    const resources = createResourceTracker(`Industry3DIcon ${industry}`);
+    createIcon(resources);
+    
+    // Swap in the industry's model when public/models lists one; the primitives stay otherwise
+    let cancelled = false;
+    loadModel(`industry-${industry}`).then(model => {
+      const group = groupRef.current;
+      if (cancelled || !model || !group) return;
+      // The primitives go away for good, so release them before the model replaces them
+      resources.dispose();
+      group.clear();
+      group.add(model);
+      resources.trackObject(model);
+    });
+    return () => {
+      cancelled = true;
+      resources.dispose();
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [industry, color]);
   
   // Create a simple 3D icon based on the industry type
-  const createIcon = () => {
+  const createIcon = (resources: ResourceTracker) => {
     const group = groupRef.current;
     if (!group) return;
     
@@ -138,6 +159,8 @@ export default function Industry3DIcon({
         group.add(capMesh);
         break;
     }
+    
+    resources.trackObject(group);
   };
   
   // Animation effect - gentle floating and rotation
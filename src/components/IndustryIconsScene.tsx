@@ -1,7 +1,11 @@
 import React from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei';
+import { OrbitControls, PerspectiveCamera, Environment, View } from '@react-three/drei';
 import Industry3DIcon, { IndustryType } from './Industry3DIcon';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { INDUSTRY_LABELS } from '../utils/industries';
+import { useMotionPreference } from './MotionPreferenceProvider';
 
 interface IndustryIconsSceneProps {
   industry: IndustryType;
@@ -63,8 +67,11 @@ function SceneLighting() {
   );
 }
 
-// Component to render a single industry icon with its scene
+// Component to render a single industry icon with its scene.
+// The icon is a drei View drawn by the page's SharedViewCanvas, not a canvas of its own.
 const IndustryIconsScene = ({ industry, color }: IndustryIconsSceneProps) => {
+  const { reducedMotion } = useMotionPreference();
+  
   // Map industry types to their corresponding colors if not provided
   const getIndustryColor = (industry: IndustryType): string => {
     switch (industry) {
@@ -107,56 +114,73 @@ const IndustryIconsScene = ({ industry, color }: IndustryIconsSceneProps) => {
     }
   };
 
+  // Static badge in the icon's color for browsers without WebGL
+  const fallback = (
+    <div className="w-full h-full flex items-center justify-center" role="img" aria-label={INDUSTRY_LABELS[industry]}>
+      <div
+        className="w-24 h-24 rounded-full flex items-center justify-center text-3xl font-bold text-white"
+        style={{ background: `radial-gradient(circle at 35% 35%, ${actualColor}, #080818 75%)`, boxShadow: `0 0 30px ${actualColor}55` }}
+      >
+        {INDUSTRY_LABELS[industry].charAt(0)}
+      </div>
+    </div>
+  );
+
   return (
     <div className="w-full h-48 relative">
-      <Canvas shadows dpr={[1, 2]} className="bg-transparent">
-        <PerspectiveCamera 
-          makeDefault 
-          position={getCameraPosition()} 
-          fov={45} 
-          near={0.1}
-          far={100}
-        />
-        <SceneLighting />
-        
-        {/* Add a subtle platform/ground for the icon to cast shadows on */}
-        <mesh 
-          rotation={[-Math.PI / 2, 0, 0]} 
-          position={[0, -0.7, 0]} 
-          receiveShadow
-        >
-          <planeGeometry args={[10, 10]} />
-          <shadowMaterial opacity={0.3} />
-        </mesh>
-        
-        {/* No platform beneath the icon - removed for cleaner look */}
-        
-        {/* Render the 3D industry icon */}
-        <Industry3DIcon 
-          industry={industry} 
-          color={actualColor}
-          position={[0, 0, 0]}
-          rotation={[0.1, Math.PI / 4, 0]}
-          scale={1.5}
-        />
-        
-        {/* Add subtle controls for mobile interaction */}
-        <OrbitControls 
-          enableZoom={false}
-          enablePan={false}
-          minPolarAngle={Math.PI / 6}
-          maxPolarAngle={Math.PI / 2}
-          rotateSpeed={0.5}
-          autoRotate={true}
-          autoRotateSpeed={1.0}
-        />
-        
-        {/* Add a subtle environment for reflections */}
-        <Environment preset="night" />
-        
-        {/* Add a subtle fog effect for depth */}
-        <fog attach="fog" args={['#080818', 3.5, 7]} />
-      </Canvas>
+      <WebGLGate fallback={fallback}>
+        <View className="w-full h-full">
+          {/* Applies the governor's light and fog limits to this view's scene; the shared canvas reports frames */}
+          <QualityGovernorProbe reportFrames={false} />
+          <SceneInspectorProbe label="IndustryIconsScene" />
+          <PerspectiveCamera 
+            makeDefault 
+            position={getCameraPosition()} 
+            fov={45} 
+            near={0.1}
+            far={100}
+          />
+          <SceneLighting />
+          
+          {/* Add a subtle platform/ground for the icon to cast shadows on */}
+          <mesh 
+            rotation={[-Math.PI / 2, 0, 0]} 
+            position={[0, -0.7, 0]} 
+            receiveShadow
+          >
+            <planeGeometry args={[10, 10]} />
+            <shadowMaterial opacity={0.3} />
+          </mesh>
+          
+          {/* No platform beneath the icon - removed for cleaner look */}
+          
+          {/* Render the 3D industry icon */}
+          <Industry3DIcon 
+            industry={industry} 
+            color={actualColor}
+            position={[0, 0, 0]}
+            rotation={[0.1, Math.PI / 4, 0]}
+            scale={1.5}
+          />
+          
+          {/* Add subtle controls for mobile interaction */}
+          <OrbitControls 
+            enableZoom={false}
+            enablePan={false}
+            minPolarAngle={Math.PI / 6}
+            maxPolarAngle={Math.PI / 2}
+            rotateSpeed={0.5}
+            autoRotate={!reducedMotion}
+            autoRotateSpeed={1.0}
+          />
+          
+          {/* Add a subtle environment for reflections */}
+          <Environment preset="night" />
+          
+          {/* Add a subtle fog effect for depth */}
+          <fog attach="fog" args={['#080818', 3.5, 7]} />
+        </View>
+      </WebGLGate>
     </div>
   );
 }
@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import { createAutoplayDriver, createManualDriver } from '../utils/journeyDrivers';
+import JourneyScrubber from './JourneyScrubber';
+
+// The journey is WebGL only, so never render it on the server
+const DataProtectionJourney = dynamic(() => import('./DataProtectionJourney'), { ssr: false });
+
+// Seconds for one pass through the journey, and how long the secured lock stays on screen
+const AUTOPLAY_SECONDS = 14;
+const AUTOPLAY_HOLD_SECONDS = 3;
+
+interface JourneyEmbedProps {
+  // Show a scrubber instead of looping on its own
+  controls?: boolean;
+}
+
+/**
+ * Full-window data protection journey for kiosks and iframes. It loops by
+ * itself, or follows a scrubber when `controls` is set, since there's no
+ * page to scroll through.
+ */
+const JourneyEmbed: React.FC<JourneyEmbedProps> = ({ controls = false }) => {
+  const autoplayDriver = useMemo(() => createAutoplayDriver({
+    duration: AUTOPLAY_SECONDS,
+    loop: true,
+    holdSeconds: AUTOPLAY_HOLD_SECONDS,
+    ease: 'power1.inOut'
+  }), []);
+  const manualDriver = useMemo(() => createManualDriver(), []);
+
+  return (
+    <div className="flex flex-col h-screen bg-black">
+      <div id="journey-embed" className="relative flex-1 min-h-0">
+        <DataProtectionJourney
+          scrollContainerId="journey-embed"
+          driver={controls ? manualDriver : autoplayDriver}
+        />
+      </div>
+      {controls && (
+        <div className="px-6 pt-3 pb-4">
+          <JourneyScrubber driver={manualDriver} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JourneyEmbed;
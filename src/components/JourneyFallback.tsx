@@ -0,0 +1,41 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import { JourneyFallback as JourneyFallbackHandle, createJourneyFallback } from '../utils/journeyFallback';
+
+interface JourneyFallbackProps {
+  // Journey progress (0..1)
+  progress: number;
+  showCaption?: boolean;
+  className?: string;
+}
+
+/**
+ * SVG Shrink/Shred/Secure illustration shown when WebGL is unavailable
+ */
+const JourneyFallback: React.FC<JourneyFallbackProps> = ({ progress, showCaption = true, className = 'w-full h-full' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fallbackRef = useRef<JourneyFallbackHandle | null>(null);
+  const progressRef = useRef(progress);
+  progressRef.current = progress;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const fallback = createJourneyFallback(containerRef.current, { showCaption });
+    fallback.update(progressRef.current);
+    fallbackRef.current = fallback;
+
+    return () => {
+      fallback.dispose();
+      fallbackRef.current = null;
+    };
+  }, [showCaption]);
+
+  useEffect(() => {
+    fallbackRef.current?.update(progress);
+  }, [progress]);
+
+  return <div ref={containerRef} className={className} />;
+};
+
+export default JourneyFallback;
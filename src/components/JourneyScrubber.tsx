@@ -0,0 +1,49 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { PHASES } from '../utils/phases';
+import { ManualJourneyDriver } from '../utils/journeyDrivers';
+
+interface JourneyScrubberProps {
+  driver: ManualJourneyDriver;
+  className?: string;
+}
+
+/**
+ * Range slider that scrubs a journey driven by a manual driver, with the
+ * phase boundaries marked underneath
+ */
+const JourneyScrubber: React.FC<JourneyScrubberProps> = ({ driver, className = '' }) => {
+  const [progress, setProgress] = useState(() => driver.getProgress());
+
+  // Stay in sync when something else moves the driver
+  useEffect(() => driver.subscribe(setProgress), [driver]);
+
+  return (
+    <div className={`w-full ${className}`}>
+      <input
+        type="range"
+        min={0}
+        max={1000}
+        value={Math.round(progress * 1000)}
+        onChange={event => driver.setProgress(Number(event.target.value) / 1000)}
+        aria-label="Journey progress"
+        aria-valuetext={`${Math.round(progress * 100)}%`}
+        className="w-full accent-blue-500"
+      />
+      <div className="relative h-4 text-xs text-gray-400">
+        {PHASES.map(phase => (
+          <span
+            key={phase.id}
+            className={`absolute ${phase.textClassName}`}
+            style={{ left: `${phase.start * 100}%` }}
+          >
+            {phase.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JourneyScrubber;
@@ -0,0 +1,75 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { MotionConfig } from 'framer-motion';
+import {
+  MotionPreference,
+  REDUCED_MOTION_QUERY,
+  readStoredMotionPreference,
+  resolveReducedMotion,
+  storeMotionPreference,
+  systemPrefersReducedMotion
+} from '../utils/motionPreference';
+
+interface MotionPreferenceContextValue {
+  preference: MotionPreference;
+  // True when animations should be replaced with stepwise changes
+  reducedMotion: boolean;
+  setPreference: (preference: MotionPreference) => void;
+}
+
+const MotionPreferenceContext = createContext<MotionPreferenceContextValue>({
+  preference: 'system',
+  reducedMotion: false,
+  setPreference: () => {}
+});
+
+/**
+ * Motion preference for the current visitor
+ */
+export function useMotionPreference(): MotionPreferenceContextValue {
+  return useContext(MotionPreferenceContext);
+}
+
+/**
+ * Central reduced motion switch for GSAP, framer-motion, CSS and the 3D scenes.
+ * Sets data-reduced-motion on <html> for CSS and configures framer-motion;
+ * GSAP and Three.js code reads useMotionPreference().
+ */
+export default function MotionPreferenceProvider({ children }: { children: React.ReactNode }) {
+  // Both start at their server-side defaults and sync with the browser after mount
+  const [preference, setPreferenceState] = useState<MotionPreference>('system');
+  const [systemReduced, setSystemReduced] = useState(false);
+
+  useEffect(() => {
+    setPreferenceState(readStoredMotionPreference());
+    setSystemReduced(systemPrefersReducedMotion());
+
+    if (!window.matchMedia) return;
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setSystemReduced(event.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const reducedMotion = resolveReducedMotion(preference, systemReduced);
+
+  useEffect(() => {
+    document.documentElement.dataset.reducedMotion = String(reducedMotion);
+  }, [reducedMotion]);
+
+  const setPreference = useCallback((next: MotionPreference) => {
+    storeMotionPreference(next);
+    setPreferenceState(next);
+  }, []);
+
+  const value = useMemo(() => ({ preference, reducedMotion, setPreference }), [preference, reducedMotion, setPreference]);
+
+  return (
+    <MotionPreferenceContext.Provider value={value}>
+      <MotionConfig reducedMotion={reducedMotion ? 'always' : 'never'}>
+        {children}
+      </MotionConfig>
+    </MotionPreferenceContext.Provider>
+  );
+}
@@ -1,12 +1,14 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useMotionPreference } from './MotionPreferenceProvider';
 
 // Modern Navigation Component with Scale-inspired styling
 const Navigation = () => {
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const pathname = usePathname();
+  const { reducedMotion, setPreference } = useMotionPreference();
   
   // Menu items for the "Secure" dropdown
   const secureItems = [
@@ -111,13 +113,31 @@ const Navigation = () => {
             </Link>
           </div>
 
-          {/* CTA Button */}
-          <Link
-            href="/demo"
-            className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-medium hover:from-blue-700 hover:to-blue-600 transition-all shadow-md shadow-blue-500/20 hover:shadow-blue-500/30"
-          >
-            Schedule Demo
-          </Link>
+          {/* Motion toggle and CTA Button */}
+          <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={() => setPreference(reducedMotion ? 'full' : 'reduce')}
+              aria-pressed={reducedMotion}
+              title={reducedMotion ? 'Animations reduced - click to enable full motion' : 'Reduce motion'}
+              className={`p-2 rounded-full border transition-colors ${reducedMotion ? 'border-blue-500/60 text-blue-300' : 'border-transparent text-gray-400 hover:text-white'}`}
+            >
+              <span className="sr-only">Reduce motion</span>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                {reducedMotion ? (
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                ) : (
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664zM21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                )}
+              </svg>
+            </button>
+            <Link
+              href="/demo"
+              className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-full font-medium hover:from-blue-700 hover:to-blue-600 transition-all shadow-md shadow-blue-500/20 hover:shadow-blue-500/30"
+            >
+              Schedule Demo
+            </Link>
+          </div>
 
           {/* Mobile Menu Button */}
           <button className="md:hidden text-gray-300 hover:text-white">
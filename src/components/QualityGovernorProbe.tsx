@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { SceneEventBus, SceneQuality } from '../utils/sceneEvents';
+import { applyRenderQuality, getQualityGovernor } from '../utils/renderQuality';
+
+/**
+ * Current tier of the page-wide quality governor, for Canvas props such as
+ * dpr and shadows or for sizing particle counts
+ */
+export function useRenderQuality(): SceneQuality {
+  const [quality, setQuality] = useState<SceneQuality>(() => getQualityGovernor().getQuality());
+
+  useEffect(() => {
+    const governor = getQualityGovernor();
+    setQuality(governor.getQuality());
+    return governor.subscribe(setQuality);
+  }, []);
+
+  return quality;
+}
+
+interface QualityGovernorProbeProps {
+  // Bus that should receive qualityChange events from the governor
+  events?: SceneEventBus;
+  // Set to false for on-demand frameloops, whose irregular frames are not frame times
+  reportFrames?: boolean;
+}
+
+/**
+ * Place inside a React Three Fiber Canvas: reports frame times to the shared
+ * governor and applies its lights, fog and shadow settings to the scene.
+ * Pixel ratio stays with the Canvas dpr prop.
+ */
+export default function QualityGovernorProbe({ events, reportFrames = true }: QualityGovernorProbeProps) {
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const quality = useRenderQuality();
+
+  useFrame(() => {
+    if (reportFrames) getQualityGovernor().recordFrame();
+  });
+
+  useEffect(() => {
+    applyRenderQuality(gl, scene, quality, { skipPixelRatio: true });
+  }, [gl, scene, quality]);
+
+  useEffect(() => {
+    if (!events) return;
+    return getQualityGovernor().connect(events);
+  }, [events]);
+
+  return null;
+}
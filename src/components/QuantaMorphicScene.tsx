@@ -1,85 +1,105 @@
 "use client";
 
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useMemo, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import { PhaseId } from '../utils/phases';
+import { QUALITY_PIXEL_RATIO, SceneEventBus, SceneQuality } from '../utils/sceneEvents';
+import { observeSceneVisibility } from '../utils/sceneVisibility';
+import { SceneSeed } from '../utils/random';
+import { InstancedParticleSystem, createInstancedParticles } from '../utils/instancedParticles';
+import { useSceneEvent, useSceneEventBus } from './SceneEventsProvider';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import JourneyFallback from './JourneyFallback';
+import { useMotionPreference } from './MotionPreferenceProvider';
+import { useSceneRandom } from './SceneSeedProvider';
 
-// Animation phases
-const PHASES = {
-  INTRO: -1,
-  SHRINK: 0,
-  SHRED: 1,
-  SECURE: 2
-};
+// Animation phases - the scene shows an intro state until the first phase is published
+type ScenePhase = PhaseId | 'intro';
 
 // Data cube component
-function DataCube({ phase }: { phase: number }) {
+function DataCube({ phase, seed }: { phase: ScenePhase; seed?: SceneSeed }) {
   const meshRef = useRef<THREE.Mesh>(null);
   const groupRef = useRef<THREE.Group>(null);
-  const fragmentsRef = useRef<THREE.Group>(null);
   const lockRef = useRef<THREE.Group>(null);
   const timeRef = useRef(0);
+  const { reducedMotion } = useMotionPreference();
+  const random = useSceneRandom('QuantaMorphicScene', seed);
   
   // Generate fragments for shredding
-  const fragments = useRef(Array.from({ length: 20 }, () => ({
-    position: new THREE.Vector3(
-      (Math.random() - 0.5) * 2,
-      (Math.random() - 0.5) * 2,
-      (Math.random() - 0.5) * 2
-    ),
-    rotation: new THREE.Euler(
-      Math.random() * Math.PI * 2,
-      Math.random() * Math.PI * 2,
-      Math.random() * Math.PI * 2
-    ),
-    scale: 0.2 + Math.random() * 0.2,
-    speed: 0.5 + Math.random() * 0.5,
-    color: new THREE.Color().setHSL(0.6 + Math.random() * 0.1, 0.8, 0.6)
-  })));
+  const fragments = useMemo(() => {
+    const fragmentRandom = random.fork('fragments');
+    return Array.from({ length: 20 }, () => ({
+      position: new THREE.Vector3(
+        fragmentRandom.centered(2),
+        fragmentRandom.centered(2),
+        fragmentRandom.centered(2)
+      ),
+      rotation: new THREE.Euler(
+        fragmentRandom.next() * Math.PI * 2,
+        fragmentRandom.next() * Math.PI * 2,
+        fragmentRandom.next() * Math.PI * 2
+      ),
+      scale: 0.2 + fragmentRandom.next() * 0.2,
+      speed: 0.5 + fragmentRandom.next() * 0.5,
+      color: new THREE.Color().setHSL(0.6 + fragmentRandom.next() * 0.1, 0.8, 0.6)
+    }));
+  }, [random]);
   
-  // Animation state
-  const [animationState, setAnimationState] = useState({
-    shrink: 0,
-    shred: 0,
-    secure: 0
-  });
-  
-  // Listen for animation phase changes
+  // Fragments are drawn instanced, in one draw call
+  const [fragmentParticles, setFragmentParticles] = useState<InstancedParticleSystem | null>(null);
   useEffect(() => {
-    const handlePhaseChange = (e: CustomEvent) => {
-      const { phase: newPhase } = e.detail;
-      
-      // Reset all states
-      const newState = { shrink: 0, shred: 0, secure: 0 };
-      
-      // Set the active phase
-      if (newPhase === PHASES.SHRINK) newState.shrink = 1;
-      else if (newPhase === PHASES.SHRED) newState.shred = 1;
-      else if (newPhase === PHASES.SECURE) newState.secure = 1;
-      
-      setAnimationState(newState);
-    };
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const system = createInstancedParticles({
+      geometries: [geometry],
+      material: new THREE.MeshStandardMaterial({ metalness: 0.8, roughness: 0.2, transparent: true, opacity: 0.9 }),
+      count: fragments.length,
+      init: particle => {
+        const fragment = fragments[particle.index];
+        particle.rotation.copy(fragment.rotation);
+        particle.scale.setScalar(fragment.scale);
+        particle.color.copy(fragment.color);
+        particle.emissive.copy(fragment.color);
+        particle.emissiveIntensity = 0.5;
+      }
+    });
+    // The instanced mesh holds its own copy of the geometry
+    geometry.dispose();
+    system.meshes.forEach(mesh => {
+      mesh.castShadow = true;
+    });
+    system.group.visible = false;
     
-    window.addEventListener('updateAnimationState', handlePhaseChange as EventListener);
-    return () => {
-      window.removeEventListener('updateAnimationState', handlePhaseChange as EventListener);
-    };
-  }, []);
+    setFragmentParticles(system);
+    return () => system.dispose();
+  }, [fragments]);
+  
+  // Animation state - only the active phase is driven
+  const animationState = useMemo(() => ({
+    shrink: phase === 'shrink' ? 1 : 0,
+    shred: phase === 'shred' ? 1 : 0,
+    secure: phase === 'secure' ? 1 : 0
+  }), [phase]);
   
   // Animation loop
-  useFrame((state, delta) => {
+  useFrame((state, frameDelta) => {
+    // With reduced motion the clock stands still, leaving each phase as a static pose
+    const delta = reducedMotion ? 0 : frameDelta;
     timeRef.current += delta;
     const time = timeRef.current;
     
-    if (!meshRef.current || !groupRef.current || !fragmentsRef.current || !lockRef.current) return;
+    if (!meshRef.current || !groupRef.current || !fragmentParticles || !lockRef.current) return;
+    const fragmentGroup = fragmentParticles.group;
     
     // Continuous rotation
     groupRef.current.rotation.y = time * 0.2;
     
     // SHRINK PHASE
-    if (phase === PHASES.SHRINK || animationState.shrink > 0) {
+    if (animationState.shrink > 0) {
       // Pulse effect
       const pulse = Math.sin(time * 3) * 0.05 + 1;
       meshRef.current.scale.set(
@@ -94,70 +114,62 @@ function DataCube({ phase }: { phase: number }) {
       }
       
       // Hide fragments and lock during shrink phase
-      fragmentsRef.current.visible = false;
+      fragmentGroup.visible = false;
       lockRef.current.visible = false;
     }
     
     // SHRED PHASE
-    if (phase === PHASES.SHRED || animationState.shred > 0) {
+    if (animationState.shred > 0) {
       // Hide main cube, show fragments
       meshRef.current.visible = false;
-      fragmentsRef.current.visible = true;
+      fragmentGroup.visible = true;
       lockRef.current.visible = false;
       
       // Animate fragments
-      fragmentsRef.current.children.forEach((fragment, i) => {
-        if (fragment instanceof THREE.Mesh) {
-          const data = fragments.current[i];
-          
-          // Rotation and movement
-          fragment.rotation.x += delta * data.speed;
-          fragment.rotation.y += delta * data.speed * 1.3;
-          
-          // Dispersion effect
-          const dispersionFactor = animationState.shred * 2;
-          fragment.position.x = data.position.x * dispersionFactor;
-          fragment.position.y = data.position.y * dispersionFactor;
-          fragment.position.z = data.position.z * dispersionFactor;
-          
-          // Update material
-          if (fragment.material instanceof THREE.MeshStandardMaterial) {
-            fragment.material.emissiveIntensity = 0.2 + animationState.shred * 0.8;
-          }
-        }
+      fragmentParticles.particles.forEach((fragment, i) => {
+        const data = fragments[i];
+        
+        // Rotation and movement
+        fragment.rotation.x += delta * data.speed;
+        fragment.rotation.y += delta * data.speed * 1.3;
+        
+        // Dispersion effect
+        const dispersionFactor = animationState.shred * 2;
+        fragment.position.copy(data.position).multiplyScalar(dispersionFactor);
+        
+        fragment.emissiveIntensity = 0.2 + animationState.shred * 0.8;
       });
+      fragmentParticles.update();
     }
     
     // SECURE PHASE
-    if (phase === PHASES.SECURE || animationState.secure > 0) {
+    if (animationState.secure > 0) {
       // Hide main cube and show lock
       meshRef.current.visible = false;
-      fragmentsRef.current.visible = true;
+      fragmentGroup.visible = true;
       lockRef.current.visible = true;
       
       // Animate fragments converging to lock
-      fragmentsRef.current.children.forEach((fragment, i) => {
-        if (fragment instanceof THREE.Mesh) {
-          const data = fragments.current[i];
-          
-          // Rotation and movement
-          fragment.rotation.x += delta * data.speed * 0.5;
-          fragment.rotation.y += delta * data.speed * 0.7;
-          
-          // Converging effect
-          const angle = time * 2 + i * 0.3;
-          const radius = 1.5 * (1 - animationState.secure * 0.7);
-          fragment.position.x = Math.cos(angle) * radius * 0.8;
-          fragment.position.y = (Math.sin(angle * 2) * 0.5 - 0.5) * radius;
-          fragment.position.z = Math.sin(angle) * radius * 0.8;
-          
-          // Update material
-          if (fragment.material instanceof THREE.MeshStandardMaterial) {
-            fragment.material.emissiveIntensity = 0.2 + animationState.secure * 0.8;
-            fragment.material.opacity = 1 - animationState.secure * 0.3;
-          }
-        }
+      fragmentParticles.particles.forEach((fragment, i) => {
+        const data = fragments[i];
+        
+        // Rotation and movement
+        fragment.rotation.x += delta * data.speed * 0.5;
+        fragment.rotation.y += delta * data.speed * 0.7;
+        
+        // Converging effect
+        const angle = time * 2 + i * 0.3;
+        const radius = 1.5 * (1 - animationState.secure * 0.7);
+        fragment.position.set(
+          Math.cos(angle) * radius * 0.8,
+          (Math.sin(angle * 2) * 0.5 - 0.5) * radius,
+          Math.sin(angle) * radius * 0.8
+        );
+        
+        fragment.emissiveIntensity = 0.2 + animationState.secure * 0.8;
       });
+      fragmentParticles.update();
+      fragmentParticles.material.opacity = 1 - animationState.secure * 0.3;
       
       // Animate lock
       const lockPulse = Math.sin(time * 5) * 0.05 + 1;
@@ -187,27 +199,7 @@ function DataCube({ phase }: { phase: number }) {
       </mesh>
       
       {/* Fragments for shredding */}
-      <group ref={fragmentsRef} visible={false}>
-        {fragments.current.map((fragment, i) => (
-          <mesh 
-            key={i}
-            position={[0, 0, 0]}
-            rotation={fragment.rotation}
-            castShadow
-          >
-            <boxGeometry args={[fragment.scale, fragment.scale, fragment.scale]} />
-            <meshStandardMaterial 
-              color={fragment.color}
-              emissive={fragment.color}
-              emissiveIntensity={0.5}
-              metalness={0.8}
-              roughness={0.2}
-              transparent
-              opacity={0.9}
-            />
-          </mesh>
-        ))}
-      </group>
+      {fragmentParticles && <primitive object={fragmentParticles.group} />}
       
       {/* Lock for secure phase */}
       <group ref={lockRef} position={[0, -0.5, 0]} visible={false}>
@@ -256,32 +248,25 @@ function DataCube({ phase }: { phase: number }) {
 }
 
 // Scene component
-function Scene() {
+function Scene({ events, seed }: { events: SceneEventBus; seed?: SceneSeed }) {
   const { camera } = useThree();
-  const [phase, setPhase] = useState(PHASES.INTRO);
+  const { reducedMotion } = useMotionPreference();
+  const [phase, setPhase] = useState<ScenePhase>(() => events.getLast('phaseChange')?.phase ?? 'intro');
   
-  // Listen for animation phase changes
-  useEffect(() => {
-    const handlePhaseChange = (e: CustomEvent) => {
-      setPhase(e.detail.phase);
-    };
-    
-    window.addEventListener('updateAnimationState', handlePhaseChange as EventListener);
-    return () => {
-      window.removeEventListener('updateAnimationState', handlePhaseChange as EventListener);
-    };
-  }, []);
+  // Listen for animation phase changes on this scene's event bus
+  useSceneEvent(events, 'phaseChange', ({ phase: newPhase }) => setPhase(newPhase));
+  useSceneEvent(events, 'reset', () => setPhase('intro'));
   
   // Camera animations
   useEffect(() => {
     if (!camera) return;
     
     // Define camera positions for each phase
-    const cameraPositions = {
-      [PHASES.INTRO]: { x: 0, y: 0, z: 5 },
-      [PHASES.SHRINK]: { x: 1, y: 0.5, z: 4 },
-      [PHASES.SHRED]: { x: -1, y: 0, z: 4.5 },
-      [PHASES.SECURE]: { x: 0, y: -0.5, z: 4 }
+    const cameraPositions: Record<ScenePhase, { x: number; y: number; z: number }> = {
+      intro: { x: 0, y: 0, z: 5 },
+      shrink: { x: 1, y: 0.5, z: 4 },
+      shred: { x: -1, y: 0, z: 4.5 },
+      secure: { x: 0, y: -0.5, z: 4 }
     };
     
     // Animate camera position
@@ -289,13 +274,13 @@ function Scene() {
       x: cameraPositions[phase].x,
       y: cameraPositions[phase].y,
       z: cameraPositions[phase].z,
-      duration: 1.5,
+      duration: reducedMotion ? 0 : 1.5,
       ease: "power2.inOut"
     });
     
     // Always look at center
     camera.lookAt(0, 0, 0);
-  }, [camera, phase]);
+  }, [camera, phase, reducedMotion]);
   
   return (
     <>
@@ -305,7 +290,7 @@ function Scene() {
       <pointLight position={[-10, -10, -10]} intensity={0.5} color="#0ea5e9" />
       
       {/* Data visualization */}
-      <DataCube phase={phase} />
+      <DataCube phase={phase} seed={seed} />
       
       {/* Environment */}
       <Environment preset="city" />
@@ -313,21 +298,61 @@ function Scene() {
   );
 }
 
+// SVG journey following this scene's progress events, for browsers without WebGL
+function SceneFallback({ events }: { events: SceneEventBus }) {
+  const [progress, setProgress] = useState(() => events.getLast('progress')?.progress ?? 0);
+  
+  useSceneEvent(events, 'progress', ({ progress: next }) => setProgress(next));
+  useSceneEvent(events, 'reset', () => setProgress(0));
+  
+  return <JourneyFallback progress={progress} />;
+}
+
+interface QuantaMorphicSceneProps {
+  // Event bus driving this scene, falls back to the nearest SceneEventsProvider
+  events?: SceneEventBus;
+  // Seed for the fragment layout, see utils/random.ts
+  seed?: SceneSeed;
+}
+
 // Main component
-export default function QuantaMorphicScene() {
+export default function QuantaMorphicScene({ events, seed }: QuantaMorphicSceneProps) {
+  const bus = useSceneEventBus(events);
+  const [paused, setPaused] = useState(false);
+  const [quality, setQuality] = useState<SceneQuality>('high');
+  
+  useSceneEvent(bus, 'pause', () => setPaused(true));
+  useSceneEvent(bus, 'resume', () => setPaused(false));
+  useSceneEvent(bus, 'qualityChange', ({ quality: newQuality }) => setQuality(newQuality));
+  
+  // Stop the frameloop while the scene is scrolled out of view or the tab is hidden
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(true);
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const visibility = observeSceneVisibility(containerRef.current, setVisible);
+    setVisible(visibility.isVisible());
+    return visibility.disconnect;
+  }, []);
+  
   return (
-    <div className="w-full h-full">
-      <Canvas
-        shadows
-        gl={{ 
-          antialias: true,
-          alpha: true,
-          powerPreference: 'high-performance'
-        }}
-        dpr={[1, 2]}
-      >
-        <Scene />
-      </Canvas>
+    <div ref={containerRef} className="w-full h-full">
+      <WebGLGate fallback={<SceneFallback events={bus} />}>
+        <Canvas
+          shadows={quality !== 'low'}
+          gl={{ 
+            antialias: true,
+            alpha: true,
+            powerPreference: 'high-performance'
+          }}
+          dpr={[1, QUALITY_PIXEL_RATIO[quality]]}
+          frameloop={paused || !visible ? 'never' : 'always'}
+        >
+          <QualityGovernorProbe events={bus} />
+          <SceneInspectorProbe label="QuantaMorphicScene" events={bus} />
+          <Scene events={bus} seed={seed} />
+        </Canvas>
+      </WebGLGate>
     </div>
   );
 }
@@ -1,11 +1,19 @@
 "use client";
 
-import { useRef, useState, Suspense, useEffect } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import { useRef, useState, Suspense, useEffect, useMemo } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { motion, useSpring, useTransform, MotionValue, Variants } from 'framer-motion';
 import { PerspectiveCamera, Environment, Stars, Preload } from '@react-three/drei';
 import * as THREE from 'three';
 import dynamic from 'next/dynamic';
+import { getPhaseProgress } from '../utils/phases';
+import { CameraRig, createCameraRig } from '../utils/cameraRig';
+import { VISUALIZATION_CAMERA_RIG, getCameraRigVariant } from '../utils/journeyCameras';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
+import JourneyFallback from './JourneyFallback';
 
 const DataTransformScene = dynamic(() => import('./DataTransformScene'), {
   ssr: false,
@@ -22,16 +30,18 @@ interface QuantaMorphicVisualizationProps {
   scrollProgress: MotionValue<number>;
 }
 
-function AnimatedCamera({ scrollProgress }: { scrollProgress: MotionValue<number> }) {
+// Camera following its keyframed rig (journeyCameras.ts) through the scroll progress
+function AnimatedCamera({ scrollProgress, cameraRig }: { scrollProgress: MotionValue<number>; cameraRig: CameraRig }) {
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
-  const cameraY = useTransform(scrollProgress, [0, 1], [2, -2]);
-  const cameraX = useTransform(scrollProgress, [0, 0.3, 0.5, 0.7, 1], [0, 2, 0, -2, 0]);
+  const width = useThree(state => state.size.width);
+
+  useEffect(() => {
+    cameraRig.setVariant(getCameraRigVariant(width));
+  }, [cameraRig, width]);
 
   useFrame(() => {
     if (cameraRef.current) {
-      cameraRef.current.position.x = cameraX.get();
-      cameraRef.current.position.y = cameraY.get();
-      cameraRef.current.lookAt(0, 0, 0);
+      cameraRig.apply(cameraRef.current, scrollProgress.get());
     }
   });
 
@@ -39,7 +49,7 @@ function AnimatedCamera({ scrollProgress }: { scrollProgress: MotionValue<number
     <PerspectiveCamera
       ref={cameraRef}
       makeDefault
-      position={[0, 0, 8]}
+      position={[0, 2, 8]}
       fov={60}
     />
   );
@@ -86,13 +96,22 @@ const textVariants: Variants = {
   visible: { opacity: 1, y: 0 }
 };
 
+// SVG journey following the scroll motion value, for browsers without WebGL
+function VisualizationFallback({ scrollProgress }: { scrollProgress: MotionValue<number> }) {
+  const [progress, setProgress] = useState(() => scrollProgress.get());
+  useEffect(() => scrollProgress.on('change', setProgress), [scrollProgress]);
+  return <JourneyFallback progress={progress} />;
+}
+
 export default function QuantaMorphicVisualization({ scrollProgress }: QuantaMorphicVisualizationProps) {
-  const [starCount] = useState(500);
+  const quality = useRenderQuality();
+  const starCount = Math.round(500 * QUALITY_SETTINGS[quality].particleScale);
+  const cameraRig = useMemo(() => createCameraRig(VISUALIZATION_CAMERA_RIG), []);
   
-  // Calculate progress for each phase based on overall scroll with adjusted ranges
-  const shrinkProgress = useTransform(scrollProgress, [0.1, 0.3], [0, 1]);
-  const shredProgress = useTransform(scrollProgress, [0.3, 0.5], [0, 1]);
-  const secureProgress = useTransform(scrollProgress, [0.5, 0.7], [0, 1]);
+  // Calculate progress for each phase based on overall scroll using the shared phase model
+  const shrinkProgress = useTransform(scrollProgress, (value) => getPhaseProgress(value, 'shrink'));
+  const shredProgress = useTransform(scrollProgress, (value) => getPhaseProgress(value, 'shred'));
+  const secureProgress = useTransform(scrollProgress, (value) => getPhaseProgress(value, 'secure'));
 
   const smoothShrinkProgress = useSpring(shrinkProgress, {
     stiffness: 30,
@@ -127,50 +146,54 @@ export default function QuantaMorphicVisualization({ scrollProgress }: QuantaMor
 
   return (
     <div className="relative w-full h-full">
-      <Canvas
-        className="w-full h-full"
-        gl={{
-          antialias: true,
-          alpha: false,
-          stencil: false,
-          depth: true,
-          powerPreference: 'high-performance'
-        }}
-        dpr={[1, 2]}
-        performance={{ min: 0.5 }}
-      >
-        <Suspense fallback={null}>
-          <color attach="background" args={["#000000"]} />
-          <fog attach="fog" args={["#000000", 5, 15]} />
-          
-          {/* Animated camera that follows scroll */}
-          <AnimatedCamera scrollProgress={scrollProgress} />
-          
-          {/* Dynamic lighting based on scroll position */}
-          <DynamicLights
-            shrinkProgress={smoothShrinkProgress.get()}
-            shredProgress={smoothShredProgress.get()}
-            secureProgress={smoothSecureProgress.get()}
-          />
-          
-          <Stars count={starCount} depth={50} fade speed={1} />
-          
-          {/* Unified animations container */}
-          <group position={[0, 0, 0]}>
-            <DataTransformScene scrollProgress={scrollProgress} />
+      <WebGLGate fallback={<VisualizationFallback scrollProgress={scrollProgress} />}>
+        <Canvas
+          className="w-full h-full"
+          gl={{
+            antialias: true,
+            alpha: false,
+            stencil: false,
+            depth: true,
+            powerPreference: 'high-performance'
+          }}
+          dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]}
+          performance={{ min: 0.5 }}
+        >
+          <QualityGovernorProbe />
+          <SceneInspectorProbe label="QuantaMorphicVisualization" cameraRig={cameraRig} />
+          <Suspense fallback={null}>
+            <color attach="background" args={["#000000"]} />
+            <fog attach="fog" args={["#000000", 5, 15]} />
             
-            {/* Data object that flows through all sections */}
-            <DataObject
+            {/* Animated camera that follows scroll */}
+            <AnimatedCamera scrollProgress={scrollProgress} cameraRig={cameraRig} />
+            
+            {/* Dynamic lighting based on scroll position */}
+            <DynamicLights
               shrinkProgress={smoothShrinkProgress.get()}
               shredProgress={smoothShredProgress.get()}
               secureProgress={smoothSecureProgress.get()}
             />
-          </group>
-          
-          <Environment preset="city" />
-          <Preload all />
-        </Suspense>
-      </Canvas>
+            
+            <Stars count={starCount} depth={50} fade speed={1} />
+            
+            {/* Unified animations container */}
+            <group position={[0, 0, 0]}>
+              <DataTransformScene scrollProgress={scrollProgress} />
+              
+              {/* Data object that flows through all sections */}
+              <DataObject
+                shrinkProgress={smoothShrinkProgress.get()}
+                shredProgress={smoothShredProgress.get()}
+                secureProgress={smoothSecureProgress.get()}
+              />
+            </group>
+            
+            <Environment preset="city" />
+            <Preload all />
+          </Suspense>
+        </Canvas>
+      </WebGLGate>
 
       {/* Section descriptions */}
       <div className="absolute inset-0 pointer-events-none">
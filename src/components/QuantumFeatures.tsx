@@ -1,5 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { useMotionPreference } from './MotionPreferenceProvider';
+import { useSceneRandom } from './SceneSeedProvider';
+import { SceneSeed } from '../utils/random';
 
 // Define the feature type
 interface Feature {
@@ -9,9 +12,27 @@ interface Feature {
   color: string;
 }
 
+interface QuantumFeaturesProps {
+  // Seed for the floating particles, see utils/random.ts
+  seed?: SceneSeed;
+}
+
 // Component for displaying quantum-secure features with 3D-like effects
-const QuantumFeatures = () => {
+const QuantumFeatures = ({ seed }: QuantumFeaturesProps) => {
   const [activeFeature, setActiveFeature] = useState(0);
+  const { reducedMotion } = useMotionPreference();
+  const random = useSceneRandom('QuantumFeatures', seed);
+  
+  // Floating particles, placed the same way on every load
+  const particles = useMemo(() => {
+    const particleRandom = random.fork('particles');
+    return Array.from({ length: 20 }, () => ({
+      x: particleRandom.range(0, 100),
+      startY: particleRandom.range(0, 100),
+      endY: particleRandom.range(0, 100),
+      duration: particleRandom.range(10, 30)
+    }));
+  }, [random]);
   
   // Features data
   const features: Feature[] = [
@@ -35,14 +56,16 @@ const QuantumFeatures = () => {
     }
   ];
   
-  // Auto-rotate through features
+  // Auto-rotate through features, unless the visitor asked for reduced motion
   useEffect(() => {
+    if (reducedMotion) return;
+    
     const interval = setInterval(() => {
       setActiveFeature((prev) => (prev + 1) % features.length);
     }, 5000);
     
     return () => clearInterval(interval);
-  }, [features.length]);
+  }, [features.length, reducedMotion]);
   
   // Handle manual feature selection
   const handleFeatureClick = (index: number) => {
@@ -56,21 +79,21 @@ const QuantumFeatures = () => {
       
       {/* Floating particles */}
       <div className="absolute inset-0 overflow-hidden">
-        {Array.from({ length: 20 }).map((_, i) => (
+        {particles.map((particle, i) => (
           <motion.div
             key={i}
             className="absolute w-2 h-2 rounded-full bg-blue-500/30"
             initial={{ 
-              x: `${Math.random() * 100}%`, 
-              y: `${Math.random() * 100}%`,
+              x: `${particle.x}%`, 
+              y: `${particle.startY}%`,
               opacity: 0.3
             }}
             animate={{ 
-              y: [`${Math.random() * 100}%`, `${Math.random() * 100}%`],
+              y: [`${particle.startY}%`, `${particle.endY}%`],
               opacity: [0.3, 0.7, 0.3]
             }}
             transition={{ 
-              duration: 10 + Math.random() * 20, 
+              duration: particle.duration, 
               repeat: Infinity,
               ease: "linear"
             }}
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import {
+  SceneEventBus,
+  SceneEventHandler,
+  SceneEventName,
+  createSceneEventBus
+} from '../utils/sceneEvents';
+
+const SceneEventsContext = createContext<SceneEventBus | null>(null);
+
+interface SceneEventsProviderProps {
+  // Existing bus to share, a new one is created when omitted
+  bus?: SceneEventBus;
+  id?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides one scene event bus to everything rendered inside it.
+ * Wrap each journey instance separately to keep their events isolated.
+ */
+export default function SceneEventsProvider({ bus, id, children }: SceneEventsProviderProps) {
+  const [ownBus] = useState(() => bus ?? createSceneEventBus(id));
+  const value = bus ?? ownBus;
+
+  return (
+    <SceneEventsContext.Provider value={value}>
+      {children}
+    </SceneEventsContext.Provider>
+  );
+}
+
+/**
+ * Resolve the bus a scene should use: an explicit bus wins, then the
+ * nearest provider, and finally a bus private to the calling component
+ */
+export function useSceneEventBus(bus?: SceneEventBus): SceneEventBus {
+  const contextBus = useContext(SceneEventsContext);
+  const [localBus] = useState(() => createSceneEventBus());
+  return bus ?? contextBus ?? localBus;
+}
+
+/**
+ * Subscribe to a scene event for the lifetime of the component.
+ * The latest handler is always called without resubscribing on every render.
+ */
+export function useSceneEvent<K extends SceneEventName>(
+  bus: SceneEventBus,
+  name: K,
+  handler: SceneEventHandler<K>
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return bus.on(name, payload => handlerRef.current(payload));
+  }, [bus, name]);
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { PHASES, getPhaseAtProgress } from '../utils/phases';
+import { CameraKeyframe, captureCameraKeyframe, upsertCameraKeyframe } from '../utils/cameraRig';
+import {
+  InspectedObject,
+  InspectedScene,
+  RendererStats,
+  getInspectedScenes,
+  getRendererStats,
+  isSceneInspectorEnabled,
+  listSceneObjects,
+  subscribeInspectedScenes
+} from '../utils/sceneInspector';
+
+// How often objects and renderer stats are re-read
+const REFRESH_INTERVAL_MS = 250;
+// Progress moved by the step buttons
+const STEP = 0.01;
+// Seconds playback takes through the whole journey
+const PLAY_DURATION = 12;
+
+interface InspectorSnapshot {
+  // Rendered frames per second since the previous snapshot
+  fps: number;
+  stats: RendererStats;
+  objects: InspectedObject[];
+  // Keyframes of the scene's camera rig, for scenes that have one
+  camera: { variant: string | null; keyframes: readonly CameraKeyframe[] } | null;
+}
+
+const clampProgress = (progress: number) => Math.min(Math.max(progress, 0), 1);
+
+const formatTuple = (values: THREE.Vector3Tuple) => values.map(value => value.toFixed(2)).join(', ');
+
+/**
+ * Development overlay, opened with `?inspect`: scrubs the journey through its
+ * event bus, with phase markers and play/step controls, and lists the picked
+ * scene's objects and renderer stats. Scenes show up here through the scene
+ * runtime or a SceneInspectorProbe.
+ *
+ * For scenes with a camera rig it doubles as a camera path editor: fly the
+ * camera with orbit controls, capture the view as a keyframe at the current
+ * progress and export the edited rig as a spec for journeyCameras.ts.
+ */
+const SceneInspector: React.FC = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [scenes, setScenes] = useState<readonly InspectedScene[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+  const [snapshot, setSnapshot] = useState<InspectorSnapshot | null>(null);
+  // Camera editor: orbit controls replace the rig while flying
+  const [flying, setFlying] = useState(false);
+  const [exported, setExported] = useState<string | null>(null);
+  const controlsRef = useRef<OrbitControls | null>(null);
+
+  // Read the query flag after mounting so server and client render the same markup
+  useEffect(() => {
+    setEnabled(isSceneInspectorEnabled());
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setScenes(getInspectedScenes());
+    return subscribeInspectedScenes(setScenes);
+  }, [enabled]);
+
+  const inspected: InspectedScene | null = scenes[Math.min(selected, scenes.length - 1)] ?? null;
+  const bus = inspected?.bus;
+  const cameraRig = inspected?.cameraRig;
+  const rigCamera = cameraRig && inspected?.camera instanceof THREE.PerspectiveCamera ? inspected.camera : null;
+
+  // Follow the scene's progress, whoever moves it
+  useEffect(() => {
+    if (!bus) return;
+    setProgress(bus.getLast('progress')?.progress ?? 0);
+    return bus.on('progress', ({ progress: next }) => setProgress(next));
+  }, [bus]);
+
+  // Objects and renderer counters, re-read a few times a second
+  useEffect(() => {
+    if (!inspected) {
+      setSnapshot(null);
+      return;
+    }
+
+    let last = { frame: inspected.renderer.info.render.frame, time: performance.now() };
+    const read = () => {
+      const stats = getRendererStats(inspected.renderer);
+      const now = performance.now();
+      const fps = ((stats.frame - last.frame) * 1000) / Math.max(now - last.time, 1);
+      last = { frame: stats.frame, time: now };
+      const camera = inspected.cameraRig
+        ? { variant: inspected.cameraRig.getVariant(), keyframes: inspected.cameraRig.getKeyframes() }
+        : null;
+      setSnapshot({ fps, stats, objects: listSceneObjects(inspected.scene), camera });
+    };
+
+    read();
+    const interval = window.setInterval(read, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [inspected]);
+
+  const seek = useCallback((value: number) => {
+    bus?.emit('seek', { progress: clampProgress(value) });
+  }, [bus]);
+
+  // Playback advances the journey from wherever it is and stops at the end
+  useEffect(() => {
+    if (!playing || !bus) return;
+
+    let frameId = 0;
+    let lastTime: number | null = null;
+    const advance = (time: number) => {
+      const delta = lastTime === null ? 0 : (time - lastTime) / 1000;
+      lastTime = time;
+      const next = clampProgress((bus.getLast('progress')?.progress ?? 0) + delta / PLAY_DURATION);
+      bus.emit('seek', { progress: next });
+      if (next >= 1) {
+        setPlaying(false);
+        return;
+      }
+      frameId = requestAnimationFrame(advance);
+    };
+    frameId = requestAnimationFrame(advance);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, bus]);
+
+  // Fly the camera freely; the rig takes it back when flying stops
+  useEffect(() => {
+    if (!flying || !inspected || !cameraRig || !rigCamera) return;
+
+    cameraRig.hold(true);
+    const controls = new OrbitControls(rigCamera, inspected.renderer.domElement);
+    controls.target.fromArray(cameraRig.sample(cameraRig.getProgress()).target);
+    controls.update();
+    const redraw = () => inspected.invalidate?.();
+    controls.addEventListener('change', redraw);
+    controlsRef.current = controls;
+
+    return () => {
+      controls.removeEventListener('change', redraw);
+      controls.dispose();
+      controlsRef.current = null;
+      cameraRig.hold(false);
+      cameraRig.apply(rigCamera, cameraRig.getProgress());
+      inspected.invalidate?.();
+    };
+  }, [flying, inspected, cameraRig, rigCamera]);
+
+  // Edited keyframes show straight away unless the camera is being flown
+  const updateKeyframes = (keyframes: CameraKeyframe[]) => {
+    if (!inspected || !cameraRig || !rigCamera) return;
+    cameraRig.setKeyframes(keyframes);
+    cameraRig.apply(rigCamera, cameraRig.getProgress());
+    inspected.invalidate?.();
+    setExported(null);
+  };
+
+  const captureKeyframe = () => {
+    if (!cameraRig || !rigCamera) return;
+    const target = controlsRef.current?.target ?? new THREE.Vector3().fromArray(cameraRig.sample(cameraRig.getProgress()).target);
+    updateKeyframes(upsertCameraKeyframe(cameraRig.getKeyframes(), captureCameraKeyframe(rigCamera, cameraRig.getProgress(), target)));
+  };
+
+  const removeKeyframe = (keyframe: CameraKeyframe) => {
+    if (!cameraRig) return;
+    updateKeyframes(cameraRig.getKeyframes().filter(existing => existing !== keyframe));
+  };
+
+  const exportRig = () => {
+    if (!cameraRig) return;
+    const spec = JSON.stringify(cameraRig.toSpec(), null, 2);
+    setExported(spec);
+    navigator.clipboard?.writeText(spec).catch(() => {
+      // The spec stays selectable in the overlay
+    });
+  };
+
+  const togglePlaying = () => {
+    // Start over once the end is reached
+    if (!playing && progress >= 1) seek(0);
+    setPlaying(!playing);
+  };
+
+  const step = (direction: 1 | -1) => {
+    setPlaying(false);
+    seek(progress + STEP * direction);
+  };
+
+  if (!enabled) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] w-[28rem] max-w-[calc(100vw-2rem)] rounded-lg border border-white/10 bg-black/85 p-3 font-mono text-xs text-gray-200 shadow-xl backdrop-blur">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-white">Scene inspector</span>
+        {scenes.length > 1 && (
+          <select
+            value={Math.min(selected, scenes.length - 1)}
+            onChange={event => setSelected(Number(event.target.value))}
+            aria-label="Inspected scene"
+            className="min-w-0 flex-1 rounded bg-gray-800 px-1 py-0.5"
+          >
+            {scenes.map((scene, index) => (
+              <option key={index} value={index}>{scene.label}</option>
+            ))}
+          </select>
+        )}
+        {scenes.length === 1 && <span className="flex-1 truncate text-gray-400">{inspected?.label}</span>}
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          className="ml-auto rounded px-1.5 hover:bg-white/10"
+          aria-expanded={!collapsed}
+        >
+          {collapsed ? '+' : '−'}
+        </button>
+      </div>
+
+      {!inspected && <p className="mt-2 text-gray-400">No scenes registered yet.</p>}
+
+      {inspected && !collapsed && (
+        <>
+          {bus ? (
+            <div className="mt-3">
+              <input
+                type="range"
+                min={0}
+                max={1000}
+                value={Math.round(progress * 1000)}
+                onChange={event => {
+                  setPlaying(false);
+                  seek(Number(event.target.value) / 1000);
+                }}
+                aria-label="Journey progress"
+                aria-valuetext={`${Math.round(progress * 100)}%`}
+                className="w-full accent-blue-500"
+              />
+              <div className="relative h-4 text-gray-400">
+                {PHASES.map(phase => (
+                  <span
+                    key={phase.id}
+                    className={`absolute ${phase.textClassName}`}
+                    style={{ left: `${phase.start * 100}%` }}
+                  >
+                    {phase.label}
+                  </span>
+                ))}
+              </div>
+              <div className="mt-2 flex items-center gap-1">
+                <button type="button" onClick={() => step(-1)} className="rounded bg-gray-800 px-2 py-0.5 hover:bg-gray-700" aria-label="Step back">
+                  ◀
+                </button>
+                <button type="button" onClick={togglePlaying} className="rounded bg-gray-800 px-2 py-0.5 hover:bg-gray-700">
+                  {playing ? 'Pause' : 'Play'}
+                </button>
+                <button type="button" onClick={() => step(1)} className="rounded bg-gray-800 px-2 py-0.5 hover:bg-gray-700" aria-label="Step forward">
+                  ▶
+                </button>
+                <span className="ml-auto">
+                  {(progress * 100).toFixed(1)}% · {getPhaseAtProgress(progress).label}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-2 text-gray-400">This scene has no event bus to scrub.</p>
+          )}
+
+          {snapshot && (
+            <>
+              <div className="mt-3 grid grid-cols-4 gap-1 text-gray-400">
+                <span>FPS <span className="text-white">{snapshot.fps.toFixed(0)}</span></span>
+                <span>Calls <span className="text-white">{snapshot.stats.calls}</span></span>
+                <span>Tris <span className="text-white">{snapshot.stats.triangles}</span></span>
+                <span>Points <span className="text-white">{snapshot.stats.points}</span></span>
+                <span>Geo <span className="text-white">{snapshot.stats.geometries}</span></span>
+                <span>Tex <span className="text-white">{snapshot.stats.textures}</span></span>
+                <span>Lines <span className="text-white">{snapshot.stats.lines}</span></span>
+                <span>Frame <span className="text-white">{snapshot.stats.frame}</span></span>
+              </div>
+
+              {snapshot.camera && rigCamera && (
+                <div className="mt-3 border-t border-white/10 pt-2">
+                  <div className="flex items-center gap-1">
+                    <span className="text-white">Camera</span>
+                    <span className="text-gray-400">{snapshot.camera.variant ?? 'default'}</span>
+                    <button
+                      type="button"
+                      onClick={() => setFlying(!flying)}
+                      className={`ml-auto rounded px-2 py-0.5 ${flying ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-800 hover:bg-gray-700'}`}
+                      aria-pressed={flying}
+                    >
+                      Fly
+                    </button>
+                    <button type="button" onClick={captureKeyframe} className="rounded bg-gray-800 px-2 py-0.5 hover:bg-gray-700">
+                      Capture
+                    </button>
+                    <button type="button" onClick={exportRig} className="rounded bg-gray-800 px-2 py-0.5 hover:bg-gray-700">
+                      Export
+                    </button>
+                  </div>
+                  {snapshot.camera.keyframes.map(keyframe => (
+                    <div key={keyframe.at} className="mt-1 flex items-center gap-2 text-gray-400">
+                      <span className="w-10 text-white">{(keyframe.at * 100).toFixed(1)}%</span>
+                      <span className="flex-1 truncate">
+                        p {formatTuple(keyframe.position)} · t {formatTuple(keyframe.target)} · {keyframe.fov}°
+                      </span>
+                      {snapshot.camera && snapshot.camera.keyframes.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeKeyframe(keyframe)}
+                          className="rounded px-1 hover:bg-white/10"
+                          aria-label={`Remove keyframe at ${(keyframe.at * 100).toFixed(1)}%`}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {exported && (
+                    <textarea
+                      readOnly
+                      value={exported}
+                      onFocus={event => event.target.select()}
+                      aria-label="Exported camera rig"
+                      className="mt-2 h-24 w-full rounded bg-gray-900 p-1 text-[10px]"
+                    />
+                  )}
+                </div>
+              )}
+
+              <div className="mt-3 max-h-64 overflow-y-auto">
+                {snapshot.objects.map(object => (
+                  <div
+                    key={object.id}
+                    className={`border-t border-white/5 py-1 ${object.visible ? '' : 'opacity-40'}`}
+                    style={{ paddingLeft: `${object.depth * 0.75}rem` }}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate text-white">{object.name}</span>
+                      {object.materialOpacity !== null && <span>α {object.materialOpacity.toFixed(2)}</span>}
+                    </div>
+                    <div className="text-gray-400">
+                      p {formatTuple(object.position)} · r {formatTuple(object.rotation)} · s {formatTuple(object.scale)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SceneInspector;
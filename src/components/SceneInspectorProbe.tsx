@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { SceneEventBus } from '../utils/sceneEvents';
+import { CameraRig } from '../utils/cameraRig';
+import { isSceneInspectorEnabled, registerInspectedScene } from '../utils/sceneInspector';
+
+interface SceneInspectorProbeProps {
+  // Shown in the inspector's scene picker
+  label: string;
+  // Bus the inspector scrubs this scene through
+  events?: SceneEventBus;
+  // Rig moving the Canvas' camera, for the inspector's camera editor
+  cameraRig?: CameraRig;
+}
+
+/**
+ * Place inside a React Three Fiber Canvas: lists the Canvas' scene and
+ * renderer in the development scene inspector (`?inspect`). Does nothing
+ * otherwise.
+ */
+export default function SceneInspectorProbe({ label, events, cameraRig }: SceneInspectorProbeProps) {
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const camera = useThree(state => state.camera);
+  const invalidate = useThree(state => state.invalidate);
+
+  useEffect(() => {
+    if (!isSceneInspectorEnabled()) return;
+    return registerInspectedScene({ label, scene, camera, renderer: gl, bus: events, cameraRig, invalidate });
+  }, [label, gl, scene, camera, events, cameraRig, invalidate]);
+
+  return null;
+}
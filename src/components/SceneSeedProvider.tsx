@@ -0,0 +1,40 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { Random, SceneSeed, createRandom, resolveSceneSeed } from '../utils/random';
+
+const SceneSeedContext = createContext<SceneSeed | undefined>(undefined);
+
+interface SceneSeedProviderProps {
+  seed: SceneSeed;
+  children: React.ReactNode;
+}
+
+/**
+ * Seeds every scene rendered inside it, e.g. a capture page that pins the look
+ */
+export default function SceneSeedProvider({ seed, children }: SceneSeedProviderProps) {
+  return (
+    <SceneSeedContext.Provider value={seed}>
+      {children}
+    </SceneSeedContext.Provider>
+  );
+}
+
+/**
+ * Seed a scene renders with: the seed prop wins, then the nearest provider,
+ * then the URL and configuration (see random.ts)
+ */
+export function useSceneSeed(seed?: SceneSeed): SceneSeed {
+  const contextSeed = useContext(SceneSeedContext);
+  return resolveSceneSeed(seed ?? contextSeed);
+}
+
+/**
+ * Random stream for one scene, drawn from useSceneSeed(seed). Fork it per
+ * thing the scene generates so rebuilding the scene reproduces the same picture.
+ */
+export function useSceneRandom(label: string, seed?: SceneSeed): Random {
+  const resolvedSeed = useSceneSeed(seed);
+  return useMemo(() => createRandom(resolvedSeed).fork(label), [resolvedSeed, label]);
+}
@@ -4,16 +4,20 @@ import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text, RoundedBox, Cylinder, Torus, SpotLight, Trail } from '@react-three/drei';
 import * as THREE from 'three';
+import { useSceneRandom } from './SceneSeedProvider';
+import { SceneSeed } from '../utils/random';
 
-export default function SecureAnimation({ progress }: { progress: number }) {
+export default function SecureAnimation({ progress, seed }: { progress: number; seed?: SceneSeed }) {
   const groupRef = useRef<THREE.Group>(null);
   const lockBodyRef = useRef<THREE.Mesh>(null);
   const shackleRef = useRef<THREE.Mesh>(null);
   const particlesRef = useRef<THREE.Group>(null);
+  const random = useSceneRandom('SecureAnimation', seed);
 
   // Generate particles for the data visualization
   const particleCount = 150; // Increased for more visual density
   const particles = useMemo(() => {
+    const particleRandom = random.fork('particles');
     return Array.from({ length: particleCount }, (_, i) => {
       const angle = (i / particleCount) * Math.PI * 2;
       const layerIndex = i % 12; // Creates 12 layers of particles for more depth
@@ -21,9 +25,9 @@ export default function SecureAnimation({ progress }: { progress: number }) {
       const radius = 3.8 + Math.sin(angle * 4) * 0.8; // Slightly larger radius for better visibility
       
       // Create more varied colors with a blue theme
-      const hue = 0.55 + Math.random() * 0.15; // Blue to cyan range
-      const saturation = 0.8 + Math.random() * 0.2;
-      const lightness = 0.6 + Math.random() * 0.3;
+      const hue = 0.55 + particleRandom.next() * 0.15; // Blue to cyan range
+      const saturation = 0.8 + particleRandom.next() * 0.2;
+      const lightness = 0.6 + particleRandom.next() * 0.3;
       
       return {
         position: new THREE.Vector3(
@@ -31,18 +35,18 @@ export default function SecureAnimation({ progress }: { progress: number }) {
           Math.sin(heightAngle) * radius,
           Math.sin(angle) * Math.cos(heightAngle) * radius
         ),
-        originalScale: 0.15 + Math.random() * 0.25, // More varied particle sizes
-        speed: 0.4 + Math.random() * 0.7, // More varied speeds
-        phase: Math.random() * Math.PI * 2,
-        heightPhase: Math.random() * Math.PI * 2,
+        originalScale: 0.15 + particleRandom.next() * 0.25, // More varied particle sizes
+        speed: 0.4 + particleRandom.next() * 0.7, // More varied speeds
+        phase: particleRandom.next() * Math.PI * 2,
+        heightPhase: particleRandom.next() * Math.PI * 2,
         baseRadius: radius,
         color: new THREE.Color().setHSL(hue, saturation, lightness),
-        pulseFrequency: 0.5 + Math.random() * 2, // For individual particle pulsing
-        trailLength: 3 + Math.random() * 5, // For varied trail lengths
-        trailWidth: 0.5 + Math.random() * 1.5 // For varied trail widths
+        pulseFrequency: 0.5 + particleRandom.next() * 2, // For individual particle pulsing
+        trailLength: 3 + particleRandom.next() * 5, // For varied trail lengths
+        trailWidth: 0.5 + particleRandom.next() * 1.5 // For varied trail widths
       };
     });
-  }, []);
+  }, [random]);
 
   const timeRef = useRef(0);
 
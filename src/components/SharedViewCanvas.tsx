@@ -0,0 +1,43 @@
+"use client";
+
+import React from 'react';
+import { Canvas } from '@react-three/fiber';
+import { View } from '@react-three/drei';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
+
+// Only rendered once the WebGL check has passed, so document is available
+function SharedViewCanvasRoot() {
+  const quality = useRenderQuality();
+
+  return (
+    <Canvas
+      shadows={QUALITY_SETTINGS[quality].shadows}
+      dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]}
+      // Pointer events land on the page; each View forwards them from its own element
+      eventSource={document.body}
+      eventPrefix="client"
+      style={{ position: 'fixed', inset: 0, pointerEvents: 'none', zIndex: 10 }}
+    >
+      <QualityGovernorProbe />
+      <SceneInspectorProbe label="SharedViewCanvas" />
+      <View.Port />
+    </Canvas>
+  );
+}
+
+/**
+ * One fixed, transparent canvas that draws every drei <View> on the page
+ * (e.g. the industry icons) through scissored viewports over the elements
+ * they track, so the grid costs one WebGL context instead of one per card.
+ * Mount it once per page; Views rendered without it stay blank.
+ */
+export default function SharedViewCanvas() {
+  return (
+    <WebGLGate fallback={null}>
+      <SharedViewCanvasRoot />
+    </WebGLGate>
+  );
+}
@@ -1,23 +1,30 @@
 "use client";
 
-import { useRef, useMemo } from 'react';
+import { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Box, Trail, Sphere } from '@react-three/drei';
+import { Trail, Sphere } from '@react-three/drei';
 import * as THREE from 'three';
+import { useSceneRandom } from './SceneSeedProvider';
+import { SceneSeed } from '../utils/random';
+import { InstancedParticleSystem, createInstancedParticles } from '../utils/instancedParticles';
 
-export default function ShredAnimation({ progress }: { progress: number }) {
+const EXPLOSION_PARTICLE_COUNT = 30;
+
+export default function ShredAnimation({ progress, seed }: { progress: number; seed?: SceneSeed }) {
   const groupRef = useRef<THREE.Group>(null);
-  const fragmentsRef = useRef<THREE.Group>(null);
-  const explosionRef = useRef<THREE.Group>(null);
+  // Empty anchors the trails follow, moved along with the instanced fragments
+  const trailAnchorsRef = useRef<(THREE.Group | null)[]>([]);
   const timeRef = useRef(0);
+  const random = useSceneRandom('ShredAnimation', seed);
   
   // Generate random targets for the fragments
   const fragmentCount = 16; // Increased for more visual impact
   const fragmentTargets = useMemo(() => {
+    const fragmentRandom = random.fork('fragments');
     return Array.from({ length: fragmentCount }, () => {
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const radius = 2 + Math.random() * 2;
+      const theta = fragmentRandom.next() * Math.PI * 2;
+      const phi = fragmentRandom.next() * Math.PI;
+      const radius = 2 + fragmentRandom.next() * 2;
       
       return {
         position: new THREE.Vector3(
@@ -26,151 +33,138 @@ export default function ShredAnimation({ progress }: { progress: number }) {
           Math.cos(phi) * radius
         ),
         rotation: new THREE.Euler(
-          Math.random() * Math.PI * 2,
-          Math.random() * Math.PI * 2,
-          Math.random() * Math.PI * 2
+          fragmentRandom.next() * Math.PI * 2,
+          fragmentRandom.next() * Math.PI * 2,
+          fragmentRandom.next() * Math.PI * 2
         ),
-        scale: 0.2 + Math.random() * 0.2,
-        speed: 0.5 + Math.random() * 1.5,
-        color: new THREE.Color().setHSL(0.6 + Math.random() * 0.1, 0.8, 0.6)
+        scale: 0.2 + fragmentRandom.next() * 0.2,
+        speed: 0.5 + fragmentRandom.next() * 1.5,
+        color: new THREE.Color().setHSL(0.6 + fragmentRandom.next() * 0.1, 0.8, 0.6)
       };
     });
-  }, []);
+  }, [random]);
+  
+  // Fragments and explosion particles are drawn instanced, one draw call each
+  const [particles, setParticles] = useState<{ fragments: InstancedParticleSystem; explosion: InstancedParticleSystem } | null>(null);
+  useEffect(() => {
+    const fragmentGeometry = new THREE.BoxGeometry(1, 1, 1);
+    const fragments = createInstancedParticles({
+      geometries: [fragmentGeometry],
+      material: new THREE.MeshStandardMaterial({ roughness: 0.2, metalness: 0.8, transparent: true }),
+      count: fragmentCount,
+      init: particle => {
+        const target = fragmentTargets[particle.index];
+        particle.rotation.copy(target.rotation);
+        particle.userData.spin = new THREE.Euler();
+        particle.color.copy(target.color);
+        particle.emissive.copy(target.color);
+        particle.emissiveIntensity = 0.5;
+      }
+    });
+    const explosionGeometry = new THREE.SphereGeometry(0.1, 8, 8);
+    const explosion = createInstancedParticles({
+      geometries: [explosionGeometry],
+      material: new THREE.MeshStandardMaterial({ transparent: true }),
+      count: EXPLOSION_PARTICLE_COUNT,
+      init: particle => {
+        particle.color.set('#60a5fa');
+        particle.emissive.set('#3b82f6');
+        particle.emissiveIntensity = 0.8;
+      }
+    });
+    explosion.group.visible = false;
+    // The instanced meshes hold their own copies of the geometries
+    fragmentGeometry.dispose();
+    explosionGeometry.dispose();
+    
+    setParticles({ fragments, explosion });
+    return () => {
+      fragments.dispose();
+      explosion.dispose();
+    };
+  }, [fragmentTargets]);
 
   useFrame((state, delta) => {
     timeRef.current += delta;
     const time = timeRef.current;
     
-    if (groupRef.current && fragmentsRef.current && explosionRef.current) {
+    if (groupRef.current && particles) {
       // Subtle rotation of the entire group
       groupRef.current.rotation.y = time * 0.1;
       
       // Animate fragments based on progress
-      fragmentsRef.current.children.forEach((fragment, i) => {
+      const { fragments, explosion } = particles;
+      fragments.particles.forEach((fragment, i) => {
         const target = fragmentTargets[i];
         
-        // Start position (compact cube)
-        const startX = 0;
-        const startY = 0;
-        const startZ = 0;
-        
-        // Calculate explosion force based on progress
+        // Fragments start as a compact cube and explode outward with progress
         const explosionForce = progress * target.speed;
-        
-        // Interpolate position based on progress
-        fragment.position.x = startX + target.position.x * explosionForce;
-        fragment.position.y = startY + target.position.y * explosionForce;
-        fragment.position.z = startZ + target.position.z * explosionForce;
+        fragment.position.copy(target.position).multiplyScalar(explosionForce);
+        trailAnchorsRef.current[i]?.position.copy(fragment.position);
         
         // Rotate fragments as they explode outward
-        fragment.rotation.x += delta * (1 + progress * 3);
-        fragment.rotation.y += delta * (1 + progress * 2);
-        fragment.rotation.z += delta * (1 + progress * 2.5);
+        const spin = fragment.userData.spin as THREE.Euler;
+        spin.x += delta * (1 + progress * 3);
+        spin.y += delta * (1 + progress * 2);
+        spin.z += delta * (1 + progress * 2.5);
+        fragment.rotation.set(target.rotation.x + spin.x, target.rotation.y + spin.y, target.rotation.z + spin.z);
         
-        // Scale fragments based on progress
-        const scaleMultiplier = 1 - progress * 0.3; // Fragments get slightly smaller as they move outward
-        fragment.scale.setScalar(target.scale * scaleMultiplier);
+        // Box of size target.scale under the fragment's own scale, slightly smaller as it moves outward
+        const scaleMultiplier = 1 - progress * 0.3;
+        fragment.scale.setScalar(target.scale * target.scale * scaleMultiplier);
         
-        // Update material properties
-        if (fragment.children[0]) {
-          const boxMesh = fragment.children[0] as THREE.Mesh;
-          // Check if material exists and is accessible
-          if (boxMesh && boxMesh.material) {
-            const material = boxMesh.material as THREE.MeshStandardMaterial;
-            // Increase emissive intensity as progress increases
-            material.emissiveIntensity = 0.5 + progress * 0.5;
-            
-            // Adjust opacity for fade effect at high progress
-            if (progress > 0.8) {
-              material.opacity = 1 - ((progress - 0.8) * 5); // Fade out at the very end
-            }
-          }
-        }
+        // Increase emissive intensity as progress increases
+        fragment.emissiveIntensity = 0.5 + progress * 0.5;
       });
+      fragments.update();
+      // Fade out at the very end
+      fragments.material.opacity = progress > 0.8 ? 1 - ((progress - 0.8) * 5) : 1;
       
-      // Animate explosion particles
-      explosionRef.current.children.forEach((particle, i) => {
-        const angle = (i / explosionRef.current!.children.length) * Math.PI * 2;
+      // Only show explosion particles when progress is significant
+      explosion.group.visible = progress > 0.2;
+      explosion.particles.forEach((particle, i) => {
+        const angle = (i / EXPLOSION_PARTICLE_COUNT) * Math.PI * 2;
         const radius = progress * 1.5;
         const pulseScale = 1 + Math.sin(time * 10 + i) * 0.2;
         
         // Particles expand outward in a sphere
-        particle.position.x = Math.cos(angle + time * 2) * Math.sin(i) * radius * pulseScale;
-        particle.position.y = Math.sin(i * 2) * radius * pulseScale;
-        particle.position.z = Math.sin(angle + time * 2) * Math.sin(i) * radius * pulseScale;
+        particle.position.set(
+          Math.cos(angle + time * 2) * Math.sin(i) * radius * pulseScale,
+          Math.sin(i * 2) * radius * pulseScale,
+          Math.sin(angle + time * 2) * Math.sin(i) * radius * pulseScale
+        );
         
         // Scale particles based on progress
         particle.scale.setScalar(0.05 + progress * 0.1 * pulseScale);
         
-        // Only show explosion particles when progress is significant
-        particle.visible = progress > 0.2;
-        
-        // Update material properties
-        if (particle.children[0]) {
-          const sphereMesh = particle.children[0] as THREE.Mesh;
-          const particleMaterial = sphereMesh.material as THREE.MeshStandardMaterial;
-          
-          if (particleMaterial) {
-            // Increase emissive intensity with progress
-            particleMaterial.emissiveIntensity = 0.8 + progress * 0.7;
-            
-            // Adjust opacity based on progress
-            particleMaterial.opacity = progress < 0.2 ? 0 : Math.min(1, progress * 2) * pulseScale;
-          }
-        }
+        // Brighter and more opaque with progress
+        particle.emissiveIntensity = 0.8 + progress * 0.7;
+        particle.opacity = progress < 0.2 ? 0 : Math.min(1, progress * 2) * pulseScale;
       });
+      explosion.update();
     }
   });
 
   return (
     <group ref={groupRef}>
       {/* Data fragments that explode outward */}
-      <group ref={fragmentsRef}>
-        {Array.from({ length: fragmentCount }).map((_, i) => {
-          const target = fragmentTargets[i];
-          return (
-            <Trail
-              key={i}
-              width={2}
-              length={5 * Math.min(1, progress * 1.5)} // Trail length increases with progress
-              color={target.color}
-              attenuation={(t) => t * t}
-            >
-              <group>
-                <Box 
-                  args={[target.scale, target.scale, target.scale]}
-                  rotation={target.rotation}
-                >
-                  <meshStandardMaterial
-                    color={target.color}
-                    emissive={target.color}
-                    emissiveIntensity={0.5}
-                    roughness={0.2}
-                    metalness={0.8}
-                    transparent
-                    opacity={1}
-                  />
-                </Box>
-              </group>
-            </Trail>
-          );
-        })}
-      </group>
+      {particles && <primitive object={particles.fragments.group} />}
+      
+      {/* Trails behind the fragments */}
+      {fragmentTargets.map((target, i) => (
+        <Trail
+          key={i}
+          width={2}
+          length={5 * Math.min(1, progress * 1.5)} // Trail length increases with progress
+          color={target.color}
+          attenuation={(t) => t * t}
+        >
+          <group ref={anchor => { trailAnchorsRef.current[i] = anchor; }} />
+        </Trail>
+      ))}
       
       {/* Explosion particles */}
-      <group ref={explosionRef}>
-        {Array.from({ length: 30 }).map((_, i) => (
-          <Sphere key={i} args={[0.1, 8, 8]} visible={false}>
-            <meshStandardMaterial
-              color="#60a5fa"
-              emissive="#3b82f6"
-              emissiveIntensity={0.8}
-              transparent
-              opacity={0.7}
-            />
-          </Sphere>
-        ))}
-      </group>
+      {particles && <primitive object={particles.explosion.group} />}
       
       {/* Central explosion effect */}
       <Sphere args={[progress * 0.8, 16, 16]} position={[0, 0, 0]}>
@@ -1,35 +1,28 @@
 "use client";
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import gsap from 'gsap';
-
-// Animation phases - these are just for reference, the actual animation is continuous
-const PHASES = {
-  INTRO: 'intro',
-  SHRINK: 'shrink',
-  SHRED: 'shred',
-  SECURE: 'secure',
-};
-
-// Phase thresholds for animation timing
-const PHASE_THRESHOLDS = {
-  [PHASES.INTRO]: { start: 0, end: 0.2 },
-  [PHASES.SHRINK]: { start: 0.2, end: 0.4 },
-  [PHASES.SHRED]: { start: 0.4, end: 0.7 },
-  [PHASES.SECURE]: { start: 0.7, end: 1.0 },
-};
+import { PhaseId, getPhaseAtProgress, getPhaseProgress } from '../utils/phases';
+import WebGLGate from './WebGLGate';
+import QualityGovernorProbe, { useRenderQuality } from './QualityGovernorProbe';
+import SceneInspectorProbe from './SceneInspectorProbe';
+import { QUALITY_SETTINGS } from '../utils/renderQuality';
+import { SceneSeed } from '../utils/random';
+import { InstancedParticleSystem, createInstancedParticles } from '../utils/instancedParticles';
+import JourneyFallback from './JourneyFallback';
+import { useSceneRandom } from './SceneSeedProvider';
 
 // Data journey component that handles the continuous animation
-function DataJourneyScene({ progress }: { progress: number }): React.ReactElement {
+function DataJourneyScene({ progress, seed }: { progress: number; seed?: SceneSeed }): React.ReactElement {
   // Get Three.js state including the invalidate function for manual rendering
   const { invalidate } = useThree();
   const sceneRef = useRef<THREE.Group>(null);
   const dataRef = useRef<THREE.Mesh>(null);
-  const fragmentsRef = useRef<THREE.Group>(null);
   const lockRef = useRef<THREE.Group>(null);
+  const random = useSceneRandom('ThreeJSCanvas', seed);
   
   // Animation state
   const timeRef = useRef(0);
@@ -47,7 +40,7 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
     shred: 0,
     secure: 0,
     overall: 0,
-    currentPhase: PHASES.INTRO,
+    currentPhase: 'shrink' as PhaseId,
     transitionFactor: 0,
   });
   
@@ -56,89 +49,77 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
     // Store the overall progress
     animationProgress.current.overall = progress;
     
-    // Calculate progress for each phase with smooth transitions
-    // SHRINK phase
-    if (progress >= PHASE_THRESHOLDS[PHASES.SHRINK].start) {
-      const phaseProgress = Math.min(
-        (progress - PHASE_THRESHOLDS[PHASES.SHRINK].start) / 
-        (PHASE_THRESHOLDS[PHASES.SHRINK].end - PHASE_THRESHOLDS[PHASES.SHRINK].start),
-        1
-      );
-      animationProgress.current.shrink = phaseProgress;
-      
-      if (progress < PHASE_THRESHOLDS[PHASES.SHRED].start) {
-        animationProgress.current.currentPhase = PHASES.SHRINK;
-        animationProgress.current.transitionFactor = phaseProgress;
-      }
-    }
+    // Calculate progress for each phase from the shared phase model
+    animationProgress.current.shrink = getPhaseProgress(progress, 'shrink');
+    animationProgress.current.shred = getPhaseProgress(progress, 'shred');
+    animationProgress.current.secure = getPhaseProgress(progress, 'secure');
     
-    // SHRED phase
-    if (progress >= PHASE_THRESHOLDS[PHASES.SHRED].start) {
-      const phaseProgress = Math.min(
-        (progress - PHASE_THRESHOLDS[PHASES.SHRED].start) / 
-        (PHASE_THRESHOLDS[PHASES.SHRED].end - PHASE_THRESHOLDS[PHASES.SHRED].start),
-        1
-      );
-      animationProgress.current.shred = phaseProgress;
-      
-      if (progress < PHASE_THRESHOLDS[PHASES.SECURE].start) {
-        animationProgress.current.currentPhase = PHASES.SHRED;
-        animationProgress.current.transitionFactor = phaseProgress;
-      }
-    }
-    
-    // SECURE phase
-    if (progress >= PHASE_THRESHOLDS[PHASES.SECURE].start) {
-      const phaseProgress = Math.min(
-        (progress - PHASE_THRESHOLDS[PHASES.SECURE].start) / 
-        (PHASE_THRESHOLDS[PHASES.SECURE].end - PHASE_THRESHOLDS[PHASES.SECURE].start),
-        1
-      );
-      animationProgress.current.secure = phaseProgress;
-      animationProgress.current.currentPhase = PHASES.SECURE;
-      animationProgress.current.transitionFactor = phaseProgress;
-    }
+    // Track the active phase and how far through it we are
+    const phase = getPhaseAtProgress(progress);
+    animationProgress.current.currentPhase = phase.id;
+    animationProgress.current.transitionFactor = getPhaseProgress(progress, phase.id);
   };
   
   // Store previous progress to calculate velocity for smoother transitions
   const prevProgress = useRef(0);
   
+  // Fragments are drawn instanced, in one draw call
+  const [fragmentParticles, setFragmentParticles] = useState<InstancedParticleSystem | null>(null);
+  
   // Create fragments on mount with cleanup
   useEffect(() => {
-    if (!fragmentsRef.current) return;
-    
     // Create fragments data
+    const fragmentRandom = random.fork('fragments');
     fragmentsData.current = Array.from({ length: 50 }, () => ({
       position: new THREE.Vector3(
-        (Math.random() - 0.5) * 0.8,
-        (Math.random() - 0.5) * 0.8,
-        (Math.random() - 0.5) * 0.8
+        fragmentRandom.centered(0.8),
+        fragmentRandom.centered(0.8),
+        fragmentRandom.centered(0.8)
       ),
       rotation: new THREE.Euler(
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2
+        fragmentRandom.next() * Math.PI * 2,
+        fragmentRandom.next() * Math.PI * 2,
+        fragmentRandom.next() * Math.PI * 2
       ),
-      scale: 0.1 + Math.random() * 0.15,
-      speed: 0.5 + Math.random() * 1.5,
+      scale: 0.1 + fragmentRandom.next() * 0.15,
+      speed: 0.5 + fragmentRandom.next() * 1.5,
       color: new THREE.Color().setHSL(
         // Hue variation
-        Math.random(),
+        fragmentRandom.next(),
         // High saturation for vibrant look
-        0.7 + Math.random() * 0.3, 
+        0.7 + fragmentRandom.next() * 0.3, 
         // Brightness variation
-        0.5 + Math.random() * 0.3
+        0.5 + fragmentRandom.next() * 0.3
       )
     }));
     
+    const geometry = new THREE.BoxGeometry(0.2, 0.2, 0.2);
+    const system = createInstancedParticles({
+      geometries: [geometry],
+      material: new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.7 }),
+      count: fragmentsData.current.length,
+      init: particle => {
+        particle.color.set('#38bdf8');
+        particle.emissive.set('#0284c7');
+        particle.emissiveIntensity = 0.2;
+      }
+    });
+    // The instanced mesh holds its own copy of the geometry
+    geometry.dispose();
+    system.meshes.forEach(mesh => {
+      mesh.castShadow = true;
+    });
+    setFragmentParticles(system);
+    
     // Cleanup function
     return () => {
+      system.dispose();
       // Clear fragment data on unmount
       if (fragmentsData.current) {
         fragmentsData.current = [];
       }
     };
-  }, []);
+  }, [random]);
   
   // Update animation progress when scroll progress changes
   useEffect(() => {
@@ -155,7 +136,7 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
   useFrame((state, delta) => {
     try {
       // Skip animation if component is unmounting or refs are invalid
-      if (!sceneRef.current || !dataRef.current || !fragmentsRef.current || !lockRef.current) return;
+      if (!sceneRef.current || !dataRef.current || !fragmentParticles || !lockRef.current) return;
       
       // Track time for animations with safe delta clamping to prevent large jumps
       const safeDelta = Math.min(delta, 0.1); // Prevent extreme time jumps
@@ -170,9 +151,8 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
     
       // PHASE 1: SHRINK - Always visible but transforms based on progress
       // Make main data cube visible with extended overlap for smoother transitions
-      dataRef.current.visible = currentPhase === PHASES.INTRO || 
-                              currentPhase === PHASES.SHRINK || 
-                              (currentPhase === PHASES.SHRED && animationProgress.current.transitionFactor < 0.7);
+      dataRef.current.visible = currentPhase === 'shrink' || 
+                              (currentPhase === 'shred' && animationProgress.current.transitionFactor < 0.7);
       
       if (dataRef.current.visible) {
         // Apply shrinking effect
@@ -186,56 +166,50 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
       
       // PHASE 2: SHRED - Fragments become visible and scatter
       // Make fragments visible during shred phase with overlap for transitions
-      if (fragmentsRef.current) {
-        fragmentsRef.current.visible = currentPhase === PHASES.SHRED || 
-                                      currentPhase === PHASES.SECURE;
+      const fragmentGroup = fragmentParticles.group;
+      fragmentGroup.visible = currentPhase === 'shred' || 
+                              currentPhase === 'secure';
+      
+      // Update fragment positions
+      if (fragmentGroup.visible) {
+        const shredProgress = animationProgress.current.shred;
         
-        // Update fragment positions
-        if (fragmentsRef.current.visible && fragmentsRef.current.children.length > 0) {
-          const shredProgress = animationProgress.current.shred;
-          
-          // Update each fragment
-          fragmentsRef.current.children.forEach((fragment, index) => {
-            if (index < fragmentsData.current.length) {
-              const fragmentData = fragmentsData.current[index];
-              
-              // Apply fragment-specific transformations
-              if (fragment instanceof THREE.Mesh) {
-                // Scatter the fragments outward
-                const scatterFactor = Math.min(shredProgress * 2, 1);
-                const targetPos = fragmentData.position.clone().multiplyScalar(2 * scatterFactor);
-                
-                // Smooth position transition
-                fragment.position.lerp(targetPos, 0.1);
-                
-                // Rotate fragments
-                fragment.rotation.x += safeDelta * fragmentData.speed * 0.5;
-                fragment.rotation.y += safeDelta * fragmentData.speed * 0.7;
-                fragment.rotation.z += safeDelta * fragmentData.speed * 0.3;
-                
-                // Scale fragments based on phase
-                const targetScale = fragmentData.scale * (1 - (0.5 * animationProgress.current.secure));
-                fragment.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
-                
-                // Apply color transitions
-                if (fragment.material instanceof THREE.MeshStandardMaterial) {
-                  // Transition to secure color in the secure phase
-                  if (currentPhase === PHASES.SECURE) {
-                    const secureColor = new THREE.Color(0x0ea5e9); // Sky blue
-                    fragment.material.color.lerp(secureColor, 0.05);
-                    fragment.material.emissive.lerp(secureColor.multiplyScalar(0.2), 0.05);
-                  }
-                }
-              }
+        // Update each fragment
+        fragmentParticles.particles.forEach((fragment, index) => {
+          if (index < fragmentsData.current.length) {
+            const fragmentData = fragmentsData.current[index];
+            
+            // Scatter the fragments outward
+            const scatterFactor = Math.min(shredProgress * 2, 1);
+            const targetPos = fragmentData.position.clone().multiplyScalar(2 * scatterFactor);
+            
+            // Smooth position transition
+            fragment.position.lerp(targetPos, 0.1);
+            
+            // Rotate fragments
+            fragment.rotation.x += safeDelta * fragmentData.speed * 0.5;
+            fragment.rotation.y += safeDelta * fragmentData.speed * 0.7;
+            fragment.rotation.z += safeDelta * fragmentData.speed * 0.3;
+            
+            // Scale fragments based on phase
+            const targetScale = fragmentData.scale * (1 - (0.5 * animationProgress.current.secure));
+            fragment.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
+            
+            // Transition to secure color in the secure phase
+            if (currentPhase === 'secure') {
+              const secureColor = new THREE.Color(0x0ea5e9); // Sky blue
+              fragment.color.lerp(secureColor, 0.05);
+              fragment.emissive.lerp(secureColor.multiplyScalar(0.2), 0.05);
             }
-          });
-        }
+          }
+        });
+        fragmentParticles.update();
       }
       
       // PHASE 3: SECURE - Lock becomes visible and fragments converge
       // Make lock visible during secure phase
       if (lockRef.current) {
-        lockRef.current.visible = currentPhase === PHASES.SECURE;
+        lockRef.current.visible = currentPhase === 'secure';
         
         if (lockRef.current.visible) {
           const secureProgress = animationProgress.current.secure;
@@ -276,20 +250,7 @@ function DataJourneyScene({ progress }: { progress: number }): React.ReactElemen
       </mesh>
       
       {/* Fragments for shredding effect */}
-      <group ref={fragmentsRef}>
-        {Array.from({ length: 50 }).map((_, index) => (
-          <mesh key={`fragment-${index}`} castShadow>
-            <boxGeometry args={[0.2, 0.2, 0.2]} />
-            <meshStandardMaterial 
-              color="#38bdf8" 
-              roughness={0.3} 
-              metalness={0.7} 
-              emissive="#0284c7"
-              emissiveIntensity={0.2}
-            />
-          </mesh>
-        ))}
-      </group>
+      {fragmentParticles && <primitive object={fragmentParticles.group} />}
       
       {/* Lock for secure phase */}
       <group ref={lockRef} position={[0, 0, 0]}>
@@ -326,46 +287,56 @@ interface ThreeJSCanvasProps {
   progress: number;
   currentPhase: string;
   phaseColors: { [key: string]: string };
+  // Seed for the fragment layout, see utils/random.ts
+  seed?: SceneSeed;
 }
 
 // Using a function expression to avoid naming conflicts
-const ThreeJSCanvas = ({ progress, currentPhase }: ThreeJSCanvasProps): React.ReactElement => {
+const ThreeJSCanvas = ({ progress, currentPhase, seed }: ThreeJSCanvasProps): React.ReactElement => {
+  const quality = useRenderQuality();
+  
   return (
-    <Canvas
-      shadows
-      gl={{ 
-        antialias: true,
-        alpha: true,
-        powerPreference: 'high-performance',
-        stencil: true,
-        depth: true,
-        failIfMajorPerformanceCaveat: false,
-        preserveDrawingBuffer: false
-      }}
-      dpr={[1, 2]}
-      key={`canvas-${currentPhase}`}
-      frameloop="demand"
-      style={{ width: '100%', height: '100%' }}
-    >
-      {/* Enhanced lighting for dramatic effect */}
-      <ambientLight intensity={0.4} />
-      <pointLight position={[10, 10, 10]} intensity={1} />
-      <pointLight position={[-10, -10, -10]} intensity={0.5} color="#0ea5e9" />
-      <spotLight 
-        position={[0, 5, 0]} 
-        angle={0.3} 
-        penumbra={0.8} 
-        intensity={0.5} 
-        color="#38bdf8" 
-        castShadow 
-      />
-      
-      {/* Data journey animation */}
-      <DataJourneyScene progress={progress} />
-      
-      {/* Environment */}
-      <Environment preset="city" />
-    </Canvas>
+    <WebGLGate fallback={<JourneyFallback progress={progress} />}>
+      <Canvas
+        shadows={QUALITY_SETTINGS[quality].shadows}
+        gl={{ 
+          antialias: true,
+          alpha: true,
+          powerPreference: 'high-performance',
+          stencil: true,
+          depth: true,
+          failIfMajorPerformanceCaveat: false,
+          preserveDrawingBuffer: false
+        }}
+        dpr={[1, QUALITY_SETTINGS[quality].pixelRatio]}
+        key={`canvas-${currentPhase}`}
+        frameloop="demand"
+        style={{ width: '100%', height: '100%' }}
+      >
+        {/* On-demand frames are not frame times, so this canvas only follows the tier */}
+        <QualityGovernorProbe reportFrames={false} />
+        <SceneInspectorProbe label="ThreeJSCanvas" />
+        
+        {/* Enhanced lighting for dramatic effect */}
+        <ambientLight intensity={0.4} />
+        <pointLight position={[10, 10, 10]} intensity={1} />
+        <pointLight position={[-10, -10, -10]} intensity={0.5} color="#0ea5e9" />
+        <spotLight 
+          position={[0, 5, 0]} 
+          angle={0.3} 
+          penumbra={0.8} 
+          intensity={0.5} 
+          color="#38bdf8" 
+          castShadow 
+        />
+        
+        {/* Data journey animation */}
+        <DataJourneyScene progress={progress} seed={seed} />
+        
+        {/* Environment */}
+        <Environment preset="city" />
+      </Canvas>
+    </WebGLGate>
   );
 }
 
@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { isWebGLAvailable } from '../utils/webglSupport';
+
+/**
+ * Whether WebGL is available - null until the check has run in the browser
+ */
+export function useWebGLAvailable(): boolean | null {
+  const [available, setAvailable] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setAvailable(isWebGLAvailable());
+  }, []);
+
+  return available;
+}
+
+interface WebGLGateProps {
+  // Rendered instead of the children when WebGL can't be used
+  fallback: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children (usually an R3F Canvas) only when WebGL is available.
+ * Nothing is rendered until the check has run, so no renderer is ever created
+ * on a browser that can't support it.
+ */
+const WebGLGate: React.FC<WebGLGateProps> = ({ fallback, children }) => {
+  const available = useWebGLAvailable();
+  if (available === null) return null;
+  return <>{available ? children : fallback}</>;
+};
+
+export default WebGLGate;
@@ -0,0 +1,211 @@
+/**
+ * cameraRig.ts
+ *
+ * Camera moves written as keyframes: at a given journey progress the camera
+ * sits at `position`, looks at `target` and has a field of view of `fov`.
+ * Between keyframes all three follow a cubic spline (three's
+ * CubicInterpolant, so uneven keyframe spacing is fine); before the first and
+ * after the last keyframe the camera holds still.
+ *
+ * A spec can carry named variants, e.g. a pulled back `mobile` path, which
+ * replace the default keyframes as a whole. The rig keeps edits made at
+ * runtime (the scene inspector's camera editor) and hands them back through
+ * toSpec(), in the same shape as the spec it was created from.
+ */
+
+import * as THREE from 'three';
+
+export interface CameraKeyframe {
+  // Journey progress (0..1) the camera reaches this pose at
+  at: number;
+  position: THREE.Vector3Tuple;
+  // Point the camera looks at
+  target: THREE.Vector3Tuple;
+  // Vertical field of view in degrees
+  fov: number;
+}
+
+export interface CameraRigSpec {
+  keyframes: readonly CameraKeyframe[];
+  // Keyframe sets replacing `keyframes` for a breakpoint, e.g. { mobile: [...] }
+  variants?: Readonly<Record<string, readonly CameraKeyframe[]>>;
+}
+
+export interface CameraPose {
+  position: THREE.Vector3Tuple;
+  target: THREE.Vector3Tuple;
+  fov: number;
+}
+
+export interface CameraRig {
+  // Pick a variant of the spec, null for the default keyframes
+  setVariant(variant: string | null): void;
+  getVariant(): string | null;
+  // Keyframes of the current variant, sorted by `at`
+  getKeyframes(): readonly CameraKeyframe[];
+  // Replace the keyframes of the current variant, e.g. with ones captured in the editor
+  setKeyframes(keyframes: readonly CameraKeyframe[]): void;
+  // Pose at a progress value (0..1)
+  sample(progress: number): CameraPose;
+  // Move the camera to the pose at `progress`; only remembers the progress while held
+  apply(camera: THREE.PerspectiveCamera, progress: number): void;
+  // Progress last passed to apply()
+  getProgress(): number;
+  // Stop apply() from moving the camera, so it can be flown around freely
+  hold(held: boolean): void;
+  isHeld(): boolean;
+  // Object whose `progress` property applies the rig when set, for tweening it on a GSAP timeline
+  bindCamera(camera: THREE.PerspectiveCamera): { progress: number };
+  // The spec with every edit made through setKeyframes()
+  toSpec(): CameraRigSpec;
+}
+
+// Values per keyframe in the interpolant: position, target, fov
+const SAMPLE_SIZE = 7;
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+/**
+ * Problems with a keyframe list; an empty list means the rig can use it
+ */
+export function validateCameraKeyframes(keyframes: readonly CameraKeyframe[]): string[] {
+  const issues: string[] = [];
+  if (keyframes.length === 0) {
+    issues.push('No keyframes');
+  }
+  keyframes.forEach((keyframe, index) => {
+    if (keyframe.at < 0 || keyframe.at > 1) {
+      issues.push(`Keyframe at ${keyframe.at} is outside the journey (0..1)`);
+    }
+    if (index > 0 && keyframe.at <= keyframes[index - 1].at) {
+      issues.push(`Keyframe at ${keyframe.at} doesn't come after the one at ${keyframes[index - 1].at}`);
+    }
+    if (keyframe.fov <= 0 || keyframe.fov >= 180) {
+      issues.push(`Keyframe at ${keyframe.at} has a field of view of ${keyframe.fov}°`);
+    }
+  });
+  return issues;
+}
+
+const createInterpolant = (keyframes: readonly CameraKeyframe[]) => {
+  const times = new Float64Array(keyframes.map(keyframe => keyframe.at));
+  const values = new Float64Array(keyframes.flatMap(keyframe => [...keyframe.position, ...keyframe.target, keyframe.fov]));
+  return new THREE.CubicInterpolant(times, values, SAMPLE_SIZE, new Float64Array(SAMPLE_SIZE));
+};
+
+/**
+ * Keyframe with the camera's current pose, rounded for pasting into a spec
+ */
+export function captureCameraKeyframe(
+  camera: THREE.PerspectiveCamera,
+  at: number,
+  target: THREE.Vector3
+): CameraKeyframe {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    at: round(at),
+    position: camera.position.toArray().map(round) as THREE.Vector3Tuple,
+    target: target.toArray().map(round) as THREE.Vector3Tuple,
+    fov: round(camera.fov)
+  };
+}
+
+/**
+ * Insert a keyframe, replacing one at the same progress
+ */
+export function upsertCameraKeyframe(keyframes: readonly CameraKeyframe[], keyframe: CameraKeyframe): CameraKeyframe[] {
+  return [...keyframes.filter(existing => Math.abs(existing.at - keyframe.at) > 1e-3), keyframe]
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Rig following `spec`, starting on its default keyframes
+ */
+export function createCameraRig(spec: CameraRigSpec): CameraRig {
+  // Keyframes per variant, '' for the default ones; edits replace entries here
+  const keyframeSets = new Map<string, readonly CameraKeyframe[]>([
+    ['', spec.keyframes],
+    ...Object.entries(spec.variants ?? {})
+  ]);
+  const interpolants = new Map<string, THREE.CubicInterpolant>();
+
+  if (isDevelopment) {
+    keyframeSets.forEach((keyframes, variant) => {
+      validateCameraKeyframes(keyframes).forEach(issue => {
+        console.warn(`Camera rig${variant ? ` (${variant})` : ''}: ${issue}`);
+      });
+    });
+  }
+
+  let variant: string | null = null;
+  let progress = 0;
+  let held = false;
+  const target = new THREE.Vector3();
+
+  const currentKey = () => (variant !== null && keyframeSets.has(variant) ? variant : '');
+
+  const getInterpolant = () => {
+    const key = currentKey();
+    let interpolant = interpolants.get(key);
+    if (!interpolant) {
+      interpolant = createInterpolant(keyframeSets.get(key) ?? spec.keyframes);
+      interpolants.set(key, interpolant);
+    }
+    return interpolant;
+  };
+
+  const sample = (value: number): CameraPose => {
+    const values = getInterpolant().evaluate(Math.min(Math.max(value, 0), 1)) as Float64Array;
+    return {
+      position: [values[0], values[1], values[2]],
+      target: [values[3], values[4], values[5]],
+      fov: values[6]
+    };
+  };
+
+  const rig: CameraRig = {
+    setVariant(next) {
+      variant = next;
+    },
+    getVariant: () => variant,
+    getKeyframes: () => keyframeSets.get(currentKey()) ?? spec.keyframes,
+    setKeyframes(keyframes) {
+      const sorted = [...keyframes].sort((a, b) => a.at - b.at);
+      if (sorted.length === 0) return;
+      keyframeSets.set(currentKey(), sorted);
+      interpolants.delete(currentKey());
+    },
+    sample,
+    apply(camera, value) {
+      progress = value;
+      if (held) return;
+
+      const pose = sample(value);
+      camera.position.fromArray(pose.position);
+      camera.lookAt(target.fromArray(pose.target));
+      if (camera.fov !== pose.fov) {
+        camera.fov = pose.fov;
+        camera.updateProjectionMatrix();
+      }
+    },
+    getProgress: () => progress,
+    hold(next) {
+      held = next;
+    },
+    isHeld: () => held,
+    bindCamera: camera => ({
+      get progress() {
+        return progress;
+      },
+      set progress(value: number) {
+        rig.apply(camera, value);
+      }
+    }),
+    toSpec() {
+      const { '': keyframes, ...variants } = Object.fromEntries(keyframeSets);
+      return Object.keys(variants).length > 0 ? { keyframes, variants } : { keyframes };
+    }
+  };
+
+  return rig;
+}
@@ -0,0 +1,58 @@
+/**
+ * contactStore.ts
+ *
+ * Persistence for contact form submissions. The store is pluggable: the
+ * default writes to a local JSON file (CONTACT_STORE_PATH, or
+ * data/contact-submissions.json), and a CRM or database backed store can be
+ * swapped in with setContactStore() without touching the route handler.
+ */
+
+import { randomUUID } from 'crypto';
+import { ContactSubmission } from './contactValidation';
+import { openJsonFile, resolveDataPath } from './jsonFileStore';
+
+export interface StoredContactSubmission extends ContactSubmission {
+  id: string;
+  createdAt: string;
+}
+
+export interface ContactStore {
+  save(submission: ContactSubmission): Promise<StoredContactSubmission>;
+  list(): Promise<StoredContactSubmission[]>;
+}
+
+/**
+ * Store that appends submissions to a JSON array on disk
+ */
+export function createJsonContactStore(filePath: string): ContactStore {
+  const file = openJsonFile<StoredContactSubmission[]>(filePath, () => []);
+
+  return {
+    save: submission => file.update(submissions => {
+      const stored: StoredContactSubmission = {
+        ...submission,
+        id: randomUUID(),
+        createdAt: new Date().toISOString()
+      };
+      return { next: [...submissions, stored], result: stored };
+    }),
+    list: () => file.read()
+  };
+}
+
+let activeStore: ContactStore | null = null;
+
+// Store used by the contact route handler
+export function getContactStore(): ContactStore {
+  if (!activeStore) {
+    activeStore = createJsonContactStore(
+      resolveDataPath(process.env.CONTACT_STORE_PATH, 'contact-submissions.json')
+    );
+  }
+  return activeStore;
+}
+
+// Replace the store, e.g. with a CRM integration or an in-memory store in tests
+export function setContactStore(store: ContactStore): void {
+  activeStore = store;
+}
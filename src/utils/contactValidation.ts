@@ -0,0 +1,103 @@
+/**
+ * contactValidation.ts
+ *
+ * Validation rules for the contact form. Shared by the client form and the
+ * /api/contact route handler so both sides always agree on what is valid.
+ */
+
+import { IndustryType, isIndustryType } from './industries';
+
+// Shape of a contact submission once it has passed validation
+export interface ContactSubmission {
+  name: string;
+  company: string;
+  email: string;
+  industry: IndustryType;
+  message: string;
+}
+
+export type ContactField = keyof ContactSubmission;
+
+// Field name to error message, only present for invalid fields
+export type ContactErrors = Partial<Record<ContactField, string>>;
+
+export type ContactValidationResult =
+  | { ok: true; data: ContactSubmission }
+  | { ok: false; errors: ContactErrors };
+
+// Length limits for each free text field
+export const CONTACT_LIMITS = {
+  name: { min: 2, max: 100 },
+  company: { min: 0, max: 120 },
+  email: { min: 3, max: 254 },
+  message: { min: 10, max: 2000 }
+} as const;
+
+// Deliberately permissive - the confirmation email is the real check
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const asTrimmedString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Validate a single field, returns an error message or undefined when valid
+ */
+export function validateContactField(field: ContactField, value: unknown): string | undefined {
+  const text = asTrimmedString(value);
+
+  switch (field) {
+    case 'name':
+      if (!text) return 'Please enter your name.';
+      if (text.length < CONTACT_LIMITS.name.min) return 'Name is too short.';
+      if (text.length > CONTACT_LIMITS.name.max) return `Name must be at most ${CONTACT_LIMITS.name.max} characters.`;
+      return undefined;
+
+    case 'company':
+      // Company is optional
+      if (text.length > CONTACT_LIMITS.company.max) return `Company must be at most ${CONTACT_LIMITS.company.max} characters.`;
+      return undefined;
+
+    case 'email':
+      if (!text) return 'Please enter your email address.';
+      if (text.length > CONTACT_LIMITS.email.max || !EMAIL_PATTERN.test(text)) return 'Please enter a valid email address.';
+      return undefined;
+
+    case 'industry':
+      if (!isIndustryType(value)) return 'Please select your industry.';
+      return undefined;
+
+    case 'message':
+      if (!text) return 'Please tell us how we can help.';
+      if (text.length < CONTACT_LIMITS.message.min) return `Message must be at least ${CONTACT_LIMITS.message.min} characters.`;
+      if (text.length > CONTACT_LIMITS.message.max) return `Message must be at most ${CONTACT_LIMITS.message.max} characters.`;
+      return undefined;
+  }
+}
+
+/**
+ * Validate a full submission from untrusted input (form state or a request body)
+ */
+export function validateContactSubmission(input: unknown): ContactValidationResult {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const fields: ContactField[] = ['name', 'company', 'email', 'industry', 'message'];
+
+  const errors: ContactErrors = {};
+  fields.forEach(field => {
+    const error = validateContactField(field, source[field]);
+    if (error) errors[field] = error;
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      name: asTrimmedString(source.name),
+      company: asTrimmedString(source.company),
+      email: asTrimmedString(source.email).toLowerCase(),
+      industry: source.industry as IndustryType,
+      message: asTrimmedString(source.message)
+    }
+  };
+}
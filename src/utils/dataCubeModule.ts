@@ -0,0 +1,105 @@
+/**
+ * dataCubeModule.ts
+ *
+ * Scene runtime module for the compact journey visual: a cube that shrinks
+ * with progress inside a cloud of data particles that jitter while the data
+ * is being shredded, both tinted with the active phase's color. Publish
+ * 'phaseColors' on the scene's bus to recolor it.
+ */
+
+import * as THREE from 'three';
+import { PHASE_COLORS, PhaseId } from './phases';
+import { SceneModule } from './sceneRuntime';
+import { getGlowTexture } from './proceduralTextures';
+
+export interface DataCubeModuleOptions {
+  // Overrides for the shared phase colors
+  phaseColors?: Partial<Record<PhaseId, string>>;
+  particleCount?: number;
+  // Called every frame with the current progress
+  onProgress?: (progress: number) => void;
+}
+
+export function createDataCubeModule(options: DataCubeModuleOptions = {}): SceneModule {
+  let phaseColors: Record<PhaseId, string> = { ...PHASE_COLORS, ...options.phaseColors };
+  const particleCount = options.particleCount ?? 1000;
+
+  return {
+    setup(context) {
+      const { scene, resources } = context;
+      const random = context.random.fork('data-cube');
+
+      // Create data visualization objects
+      const material = resources.track(new THREE.MeshStandardMaterial({ color: 0x0ea5e9 }));
+      const cube = new THREE.Mesh(resources.track(new THREE.BoxGeometry(1, 1, 1)), material);
+      scene.add(cube);
+
+      // Add particles for data visualization
+      const particlePositions = new Float32Array(particleCount * 3);
+      for (let i = 0; i < particleCount; i++) {
+        const i3 = i * 3;
+        particlePositions[i3] = random.centered(10);
+        particlePositions[i3 + 1] = random.centered(10);
+        particlePositions[i3 + 2] = random.centered(10);
+      }
+      const particleGeometry = resources.track(new THREE.BufferGeometry());
+      const positionAttribute = new THREE.BufferAttribute(particlePositions, 3);
+      particleGeometry.setAttribute('position', positionAttribute);
+      // Round, soft-edged points from the shared glow sprite
+      const particleMaterial = resources.track(new THREE.PointsMaterial({
+        color: 0x38bdf8,
+        size: 0.08,
+        map: getGlowTexture(),
+        transparent: true,
+        depthWrite: false
+      }));
+      const particles = new THREE.Points(particleGeometry, particleMaterial);
+      scene.add(particles);
+
+      const color = new THREE.Color();
+
+      // New colors arrive on the bus and replace the palette, including any already sent
+      const setPhaseColors = (colors: Partial<Record<PhaseId, string>>) => {
+        phaseColors = { ...PHASE_COLORS, ...colors };
+      };
+      const lastColors = context.bus.getLast('phaseColors');
+      if (lastColors) setPhaseColors(lastColors.colors);
+      const unsubscribe = context.bus.on('phaseColors', ({ colors }) => setPhaseColors(colors));
+
+      return {
+        particles: [particles],
+        update() {
+          // The context follows the bus, so this is always the latest progress and phase
+          const { progress, phase } = context;
+
+          cube.rotation.x += 0.01;
+          cube.rotation.y += 0.01;
+
+          // Scale cube based on progress (shrink phase)
+          cube.scale.setScalar(Math.max(0.2, 1 - progress * 0.8));
+
+          particles.rotation.x += 0.001;
+          particles.rotation.y += 0.002;
+
+          // Particles jitter while the data is being shredded
+          if (phase === 'shred') {
+            for (let i = 0; i < particlePositions.length; i++) {
+              particlePositions[i] += random.centered(0.02);
+            }
+            positionAttribute.needsUpdate = true;
+          }
+
+          // Tint everything with the active phase's color
+          if (phaseColors[phase]) {
+            color.set(phaseColors[phase]);
+            material.color.copy(color);
+            particleMaterial.color.copy(color);
+          }
+
+          options.onProgress?.(progress);
+        },
+        dispose: unsubscribe
+      };
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEMO_AVAILABILITY, findDemoSlot, generateDemoSlots } from './demoAvailability';
+
+// First and last slot start of one day, as ISO strings
+const dayBounds = (now: Date, date: string) => {
+  const starts = generateDemoSlots(now).map(slot => slot.start).filter(start => start.startsWith(date));
+  return [starts[0], starts[starts.length - 1]];
+};
+
+describe('demo availability', () => {
+  it('offers 9:00-17:00 Eastern standard time in winter', () => {
+    assert.deepEqual(dayBounds(new Date('2026-01-05T12:00:00Z'), '2026-01-07'), [
+      '2026-01-07T14:00:00.000Z',
+      '2026-01-07T21:30:00.000Z'
+    ]);
+  });
+
+  it('follows daylight saving time in summer', () => {
+    assert.deepEqual(dayBounds(new Date('2026-07-06T12:00:00Z'), '2026-07-08'), [
+      '2026-07-08T13:00:00.000Z',
+      '2026-07-08T20:30:00.000Z'
+    ]);
+  });
+
+  it('moves with the clocks in the week they change', () => {
+    // US clocks go forward on Sunday 8 March 2026
+    const now = new Date('2026-03-04T12:00:00Z');
+    assert.equal(dayBounds(now, '2026-03-06')[0], '2026-03-06T14:00:00.000Z');
+    assert.equal(dayBounds(now, '2026-03-09')[0], '2026-03-09T13:00:00.000Z');
+  });
+
+  it('skips weekends in the schedule time zone', () => {
+    const slots = generateDemoSlots(new Date('2026-01-05T12:00:00Z'));
+    slots.forEach(slot => {
+      const weekday = new Date(slot.start).getUTCDay();
+      assert.ok(DEMO_AVAILABILITY.weekdays.includes(weekday), `${slot.start} is on a weekend`);
+    });
+  });
+
+  it('respects the lead time', () => {
+    const now = new Date('2026-01-05T15:10:00Z');
+    const [first] = generateDemoSlots(now);
+    assert.equal(first.start, '2026-01-06T15:30:00.000Z');
+    assert.equal(findDemoSlot('2026-01-06T15:00:00.000Z', now), undefined);
+    assert.deepEqual(findDemoSlot('2026-01-06T15:30:00Z', now), first);
+  });
+});
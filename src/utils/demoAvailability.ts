@@ -0,0 +1,114 @@
+/**
+ * demoAvailability.ts
+ *
+ * Availability model for product demos. Slots come from a weekly schedule
+ * kept in the team's time zone, daylight saving time included, and are handed
+ * out as UTC instants so the server and every visitor agree on them; the UI
+ * formats them in the visitor's local time zone.
+ */
+
+export interface DemoAvailability {
+  // IANA time zone the schedule is kept in
+  timeZone: string;
+  // Days of the week demos are offered (0 = Sunday ... 6 = Saturday, in timeZone)
+  weekdays: number[];
+  // First and last bookable hour of the day in timeZone (end is exclusive)
+  startHour: number;
+  endHour: number;
+  slotMinutes: number;
+  // Minimum notice before a slot can be booked
+  leadTimeHours: number;
+  // How far ahead slots are offered
+  horizonDays: number;
+}
+
+export interface DemoSlot {
+  // ISO timestamps
+  start: string;
+  end: string;
+}
+
+// Weekdays, 9:00-17:00 US Eastern, 30 minute demos
+export const DEMO_AVAILABILITY: DemoAvailability = {
+  timeZone: 'America/New_York',
+  weekdays: [1, 2, 3, 4, 5],
+  startHour: 9,
+  endHour: 17,
+  slotMinutes: 30,
+  leadTimeHours: 24,
+  horizonDays: 14
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar date and wall-clock time at `time` in `timeZone`, as if that wall time were UTC
+const wallTime = (time: number, timeZone: string): number => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(time).map(part => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+};
+
+// Instant at which the clocks in `timeZone` show `wall` (a wall time encoded as UTC)
+const zonedTimeToInstant = (wall: number, timeZone: string): number => {
+  // The offset at the guess is right except across a transition, where the second pass corrects it
+  const firstGuess = wall - (wallTime(wall, timeZone) - wall);
+  return wall - (wallTime(firstGuess, timeZone) - firstGuess);
+};
+
+/**
+ * Every slot the schedule offers between `now + leadTime` and the horizon,
+ * regardless of whether it has been booked
+ */
+export function generateDemoSlots(now: Date = new Date(), availability: DemoAvailability = DEMO_AVAILABILITY): DemoSlot[] {
+  const slots: DemoSlot[] = [];
+  const { timeZone } = availability;
+  const earliest = now.getTime() + availability.leadTimeHours * HOUR;
+  // Today's date in the schedule's time zone, days are walked as UTC midnights from there
+  const today = wallTime(now.getTime(), timeZone);
+  const firstDay = today - (today % DAY);
+
+  for (let day = 0; day <= availability.horizonDays; day++) {
+    const dayStart = firstDay + day * DAY;
+    if (!availability.weekdays.includes(new Date(dayStart).getUTCDay())) continue;
+
+    for (
+      let wallStart = dayStart + availability.startHour * HOUR;
+      wallStart + availability.slotMinutes * MINUTE <= dayStart + availability.endHour * HOUR;
+      wallStart += availability.slotMinutes * MINUTE
+    ) {
+      const start = zonedTimeToInstant(wallStart, timeZone);
+      if (start < earliest) continue;
+      slots.push({
+        start: new Date(start).toISOString(),
+        end: new Date(start + availability.slotMinutes * MINUTE).toISOString()
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Find the offered slot starting at the given instant, if any
+ */
+export function findDemoSlot(start: string, now: Date = new Date(), availability: DemoAvailability = DEMO_AVAILABILITY): DemoSlot | undefined {
+  const time = Date.parse(start);
+  if (Number.isNaN(time)) return undefined;
+  return generateDemoSlots(now, availability).find(slot => Date.parse(slot.start) === time);
+}
@@ -0,0 +1,79 @@
+/**
+ * demoBooking.ts
+ *
+ * Demo booking request shape and validation, shared by the slot picker and
+ * the /api/demo route handlers. Contact details reuse the contact form rules.
+ */
+
+import { IndustryType } from './industries';
+import { validateContactField } from './contactValidation';
+
+export interface DemoBookingRequest {
+  name: string;
+  company: string;
+  email: string;
+  industry: IndustryType;
+  // ISO start time of the requested slot
+  slotStart: string;
+}
+
+export type DemoBookingField = keyof DemoBookingRequest;
+
+export type DemoBookingErrors = Partial<Record<DemoBookingField, string>>;
+
+export type DemoBookingValidationResult =
+  | { ok: true; data: DemoBookingRequest }
+  | { ok: false; errors: DemoBookingErrors };
+
+// Public view of a booking, returned to the visitor who made it
+export interface DemoBookingConfirmation {
+  id: string;
+  start: string;
+  end: string;
+  // Grants access to the booking details and calendar invite
+  confirmationToken: string;
+  // Allows the visitor to cancel the booking
+  cancelToken: string;
+}
+
+/**
+ * Validate a single field, returns an error message or undefined when valid
+ */
+export function validateDemoBookingField(field: DemoBookingField, value: unknown): string | undefined {
+  if (field === 'slotStart') {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return 'Please pick a time for your demo.';
+    return undefined;
+  }
+  return validateContactField(field, value);
+}
+
+/**
+ * Validate a booking request from untrusted input. Whether the slot is still
+ * free is checked by the booking store when the slot is reserved.
+ */
+export function validateDemoBookingRequest(input: unknown): DemoBookingValidationResult {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const fields: DemoBookingField[] = ['name', 'company', 'email', 'industry', 'slotStart'];
+
+  const errors: DemoBookingErrors = {};
+  fields.forEach(field => {
+    const error = validateDemoBookingField(field, source[field]);
+    if (error) errors[field] = error;
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  const text = (value: unknown) => String(value ?? '').trim();
+  return {
+    ok: true,
+    data: {
+      name: text(source.name),
+      company: text(source.company),
+      email: text(source.email).toLowerCase(),
+      industry: source.industry as IndustryType,
+      slotStart: new Date(text(source.slotStart)).toISOString()
+    }
+  };
+}
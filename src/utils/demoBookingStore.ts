@@ -0,0 +1,132 @@
+/**
+ * demoBookingStore.ts
+ *
+ * Persistence for demo bookings. Reservations run inside the JSON file's
+ * lock, so two visitors racing for the same slot can never both get it.
+ * The default store writes to DEMO_BOOKINGS_PATH (or data/demo-bookings.json)
+ * and can be replaced with setDemoBookingStore().
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { DemoBookingRequest } from './demoBooking';
+import { DemoSlot, findDemoSlot } from './demoAvailability';
+import { openJsonFile, resolveDataPath } from './jsonFileStore';
+
+export type DemoBookingStatus = 'confirmed' | 'cancelled';
+
+export interface DemoBooking extends DemoBookingRequest {
+  id: string;
+  slotEnd: string;
+  status: DemoBookingStatus;
+  confirmationToken: string;
+  cancelToken: string;
+  createdAt: string;
+  cancelledAt?: string;
+}
+
+export type ReserveResult =
+  | { ok: true; booking: DemoBooking }
+  | { ok: false; reason: 'unavailable' | 'taken' };
+
+export type CancelResult =
+  | { ok: true; booking: DemoBooking }
+  | { ok: false; reason: 'not_found' | 'invalid_token' };
+
+export interface DemoBookingStore {
+  // Atomically reserve the requested slot
+  reserve(request: DemoBookingRequest): Promise<ReserveResult>;
+  get(id: string): Promise<DemoBooking | undefined>;
+  cancel(id: string, cancelToken: string): Promise<CancelResult>;
+  // Start times of every slot that currently holds a confirmed booking
+  bookedSlotStarts(): Promise<Set<string>>;
+}
+
+const createToken = () => randomBytes(24).toString('base64url');
+
+/**
+ * Constant-time token comparison to avoid leaking tokens through timing
+ */
+export function tokensMatch(expected: string, provided: string | null | undefined): boolean {
+  if (!provided) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Store that keeps every booking in a JSON array on disk
+ */
+export function createJsonDemoBookingStore(filePath: string): DemoBookingStore {
+  const file = openJsonFile<DemoBooking[]>(filePath, () => []);
+
+  return {
+    reserve: request => file.update<ReserveResult>(bookings => {
+      const slot: DemoSlot | undefined = findDemoSlot(request.slotStart);
+      if (!slot) {
+        return { next: bookings, result: { ok: false, reason: 'unavailable' } };
+      }
+
+      const taken = bookings.some(booking => booking.status === 'confirmed' && booking.slotStart === slot.start);
+      if (taken) {
+        return { next: bookings, result: { ok: false, reason: 'taken' } };
+      }
+
+      const booking: DemoBooking = {
+        ...request,
+        slotStart: slot.start,
+        slotEnd: slot.end,
+        id: randomUUID(),
+        status: 'confirmed',
+        confirmationToken: createToken(),
+        cancelToken: createToken(),
+        createdAt: new Date().toISOString()
+      };
+      return { next: [...bookings, booking], result: { ok: true, booking } };
+    }),
+
+    get: async id => (await file.read()).find(booking => booking.id === id),
+
+    cancel: (id, cancelToken) => file.update<CancelResult>(bookings => {
+      const booking = bookings.find(candidate => candidate.id === id);
+      if (!booking) {
+        return { next: bookings, result: { ok: false, reason: 'not_found' } };
+      }
+      if (!tokensMatch(booking.cancelToken, cancelToken)) {
+        return { next: bookings, result: { ok: false, reason: 'invalid_token' } };
+      }
+      // Cancelling twice is harmless and keeps the original cancellation time
+      if (booking.status === 'cancelled') {
+        return { next: bookings, result: { ok: true, booking } };
+      }
+
+      const cancelled: DemoBooking = { ...booking, status: 'cancelled', cancelledAt: new Date().toISOString() };
+      return {
+        next: bookings.map(candidate => (candidate.id === id ? cancelled : candidate)),
+        result: { ok: true, booking: cancelled }
+      };
+    }),
+
+    bookedSlotStarts: async () => new Set(
+      (await file.read())
+        .filter(booking => booking.status === 'confirmed')
+        .map(booking => booking.slotStart)
+    )
+  };
+}
+
+let activeStore: DemoBookingStore | null = null;
+
+// Store used by the demo route handlers
+export function getDemoBookingStore(): DemoBookingStore {
+  if (!activeStore) {
+    activeStore = createJsonDemoBookingStore(
+      resolveDataPath(process.env.DEMO_BOOKINGS_PATH, 'demo-bookings.json')
+    );
+  }
+  return activeStore;
+}
+
+// Replace the store, e.g. with a database backed implementation
+export function setDemoBookingStore(store: DemoBookingStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,211 @@
+/**
+ * filePipeline.ts
+ *
+ * Client-side Shrink/Shred/Secure pipeline for the "try it on your own file"
+ * demo. The file is gzip-compressed with CompressionStream, encrypted with
+ * WebCrypto AES-GCM and split into shards, and can be reassembled to prove the
+ * round trip is lossless. Nothing is uploaded - every step runs in the browser.
+ */
+
+import { PhaseId, phaseTime } from './phases';
+
+// Everything is held in memory, so keep demo files reasonably small
+export const MAX_DEMO_FILE_BYTES = 50 * 1024 * 1024;
+
+export const SHARD_COUNT_LIMITS = { min: 2, max: 8, default: 4 } as const;
+
+export interface FileShard {
+  index: number;
+  bytes: Uint8Array;
+  // SHA-256 of the shard, hex encoded
+  digest: string;
+}
+
+export interface ProtectedFile {
+  name: string;
+  type: string;
+  originalSize: number;
+  compressedSize: number;
+  encryptedSize: number;
+  // SHA-256 of the original file, hex encoded
+  originalDigest: string;
+  key: CryptoKey;
+  iv: Uint8Array;
+  shards: FileShard[];
+}
+
+export interface PipelineProgress {
+  phase: PhaseId;
+  // Overall progress across all phases (0..1), aligned with the journey timeline
+  progress: number;
+  message: string;
+}
+
+export interface PipelineOptions {
+  shardCount?: number;
+  onProgress?: (update: PipelineProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type ReassembleResult =
+  | { ok: true; blob: Blob; digest: string }
+  | { ok: false; error: string };
+
+/**
+ * Whether this browser has everything the pipeline needs
+ */
+export function isFilePipelineSupported(): boolean {
+  return typeof window !== 'undefined'
+    && typeof CompressionStream !== 'undefined'
+    && typeof DecompressionStream !== 'undefined'
+    && Boolean(window.crypto?.subtle);
+}
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer))
+  .map(byte => byte.toString(16).padStart(2, '0'))
+  .join('');
+
+const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+};
+
+// Map progress within a phase onto the shared journey timeline
+const report = (options: PipelineOptions, phase: PhaseId, fraction: number, message: string) => {
+  options.onProgress?.({
+    phase,
+    progress: phaseTime(phase, Math.min(Math.max(fraction, 0), 1)),
+    message
+  });
+};
+
+// Gzip a blob, reporting how much of the input has been consumed. Aborting stops reading the blob
+async function compressBlob(blob: Blob, onRead: (fraction: number) => void, signal?: AbortSignal): Promise<Uint8Array> {
+  let read = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      read += chunk.byteLength;
+      onRead(blob.size > 0 ? read / blob.size : 1);
+      controller.enqueue(chunk);
+    }
+  });
+
+  const stream = blob.stream()
+    .pipeThrough(counter, { signal })
+    .pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompressBytes(bytes: Uint8Array): Promise<Blob> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).blob();
+}
+
+// Split into `count` contiguous shards of near-equal size
+function splitIntoShards(bytes: Uint8Array, count: number): Uint8Array[] {
+  const size = Math.ceil(bytes.byteLength / count);
+  return Array.from({ length: count }, (_, index) => bytes.slice(index * size, (index + 1) * size));
+}
+
+/**
+ * Shrink, shred and secure a file entirely in the browser:
+ * - Shrink: gzip compression
+ * - Shred: AES-GCM 256 encryption, then splitting the ciphertext into shards
+ * - Secure: fingerprinting every shard so tampering is detected on reassembly
+ */
+export async function protectFile(file: File, options: PipelineOptions = {}): Promise<ProtectedFile> {
+  const shardCount = Math.round(Math.min(Math.max(
+    options.shardCount ?? SHARD_COUNT_LIMITS.default,
+    SHARD_COUNT_LIMITS.min
+  ), SHARD_COUNT_LIMITS.max));
+
+  if (file.size > MAX_DEMO_FILE_BYTES) {
+    throw new RangeError(`Files up to ${Math.round(MAX_DEMO_FILE_BYTES / 1024 / 1024)} MB are supported in this demo.`);
+  }
+
+  // Shrink
+  report(options, 'shrink', 0, 'Compressing…');
+  const originalDigest = await sha256(await file.arrayBuffer());
+  throwIfAborted(options.signal);
+  const compressed = await compressBlob(
+    file,
+    fraction => report(options, 'shrink', fraction * 0.95, 'Compressing…'),
+    options.signal
+  );
+  throwIfAborted(options.signal);
+  report(options, 'shrink', 1, 'Compressed');
+
+  // Shred - WebCrypto encrypts in one call, so progress moves in steps
+  report(options, 'shred', 0, 'Generating key…');
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  report(options, 'shred', 0.2, 'Encrypting…');
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+  throwIfAborted(options.signal);
+  report(options, 'shred', 0.7, 'Splitting into shards…');
+  const pieces = splitIntoShards(encrypted, shardCount);
+  report(options, 'shred', 1, 'Shredded');
+
+  // Secure
+  const shards: FileShard[] = [];
+  for (const [index, bytes] of pieces.entries()) {
+    shards.push({ index, bytes, digest: await sha256(bytes) });
+    throwIfAborted(options.signal);
+    report(options, 'secure', (index + 1) / pieces.length, `Sealing shard ${index + 1} of ${pieces.length}…`);
+  }
+  report(options, 'secure', 1, 'Secured');
+
+  return {
+    name: file.name,
+    type: file.type,
+    originalSize: file.size,
+    compressedSize: compressed.byteLength,
+    encryptedSize: encrypted.byteLength,
+    originalDigest,
+    key,
+    iv,
+    shards
+  };
+}
+
+/**
+ * Reverse the pipeline: verify and join the shards, decrypt, decompress and
+ * check the result against the original file's fingerprint
+ */
+export async function reassembleFile(protectedFile: ProtectedFile): Promise<ReassembleResult> {
+  try {
+    for (const shard of protectedFile.shards) {
+      if (await sha256(shard.bytes) !== shard.digest) {
+        return { ok: false, error: `Shard ${shard.index + 1} has been modified.` };
+      }
+    }
+
+    const joined = new Uint8Array(protectedFile.encryptedSize);
+    let offset = 0;
+    [...protectedFile.shards]
+      .sort((a, b) => a.index - b.index)
+      .forEach(shard => {
+        joined.set(shard.bytes, offset);
+        offset += shard.bytes.byteLength;
+      });
+
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: protectedFile.iv },
+      protectedFile.key,
+      joined
+    );
+    const restored = await decompressBytes(new Uint8Array(decrypted));
+    const digest = await sha256(await restored.arrayBuffer());
+
+    if (digest !== protectedFile.originalDigest) {
+      return { ok: false, error: 'The reassembled file does not match the original.' };
+    }
+
+    return { ok: true, blob: new Blob([restored], { type: protectedFile.type }), digest };
+  } catch (error) {
+    console.error('Failed to reassemble file:', error);
+    // AES-GCM authentication fails if any ciphertext byte was changed
+    return { ok: false, error: 'Decryption failed - the shards could not be authenticated.' };
+  }
+}
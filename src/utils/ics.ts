@@ -0,0 +1,106 @@
+/**
+ * ics.ts
+ *
+ * Generates iCalendar (RFC 5545) files for demo bookings on the server,
+ * so visitors can add their demo to any calendar without external services.
+ */
+
+import { DemoBooking } from './demoBookingStore';
+
+export interface IcsEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+  organizerEmail: string;
+  attendee?: { name: string; email: string };
+  // CANCEL invites remove the event from the attendee's calendar
+  method: 'REQUEST' | 'CANCEL';
+  sequence?: number;
+}
+
+// Organizer address shown in calendar invites
+export const DEMO_ORGANIZER_EMAIL = process.env.DEMO_ORGANIZER_EMAIL || 'demos@secured2.com';
+
+// 20250101T140000Z
+const formatIcsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape text values (RFC 5545 section 3.3.11)
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Parameter values can't contain quotes, quoting allows ; , and : inside them
+const quoteParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+// Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space that counts toward their length
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build a single-event calendar file
+ */
+export function buildIcsEvent(event: IcsEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Secured2//Demo Scheduling//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date().toISOString())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `ORGANIZER;CN=Secured2:mailto:${event.organizerEmail}`,
+    ...(event.attendee
+      ? [`ATTENDEE;CN=${quoteParam(event.attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${event.attendee.email}`]
+      : []),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  // iCalendar requires CRLF line endings, including after the last line
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Calendar invite for a demo booking, a cancellation if the booking was cancelled
+ */
+export function buildDemoBookingIcs(booking: DemoBooking): string {
+  const cancelled = booking.status === 'cancelled';
+  return buildIcsEvent({
+    uid: `${booking.id}@secured2.com`,
+    start: booking.slotStart,
+    end: booking.slotEnd,
+    summary: 'Secured2 product demo',
+    description: `Live walkthrough of Quantum-secure® & AI-safe data protection for ${booking.company || booking.name}.`,
+    organizerEmail: DEMO_ORGANIZER_EMAIL,
+    attendee: { name: booking.name, email: booking.email },
+    method: cancelled ? 'CANCEL' : 'REQUEST',
+    sequence: cancelled ? 1 : 0
+  });
+}
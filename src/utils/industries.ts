@@ -0,0 +1,25 @@
+/**
+ * industries.ts
+ *
+ * Industries Secured2 serves. Kept free of Three.js imports so server code
+ * (route handlers, validation) can use it without pulling in the 3D icons.
+ */
+
+// Industry identifiers, in the order they appear on the page
+export const INDUSTRY_TYPES = ['healthcare', 'financial', 'government', 'enterprise', 'legal', 'education'] as const;
+
+export type IndustryType = typeof INDUSTRY_TYPES[number];
+
+// Human readable names used in forms and headings
+export const INDUSTRY_LABELS: Readonly<Record<IndustryType, string>> = {
+  healthcare: 'Healthcare',
+  financial: 'Financial Services',
+  government: 'Government',
+  enterprise: 'Enterprise',
+  legal: 'Legal',
+  education: 'Education'
+};
+
+export function isIndustryType(value: unknown): value is IndustryType {
+  return typeof value === 'string' && (INDUSTRY_TYPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,272 @@
+/**
+ * instancedParticles.ts
+ *
+ * GPU-instanced particle sets. Every geometry in a set becomes one
+ * InstancedMesh, so a thousand fragments cost as many draw calls as there are
+ * geometries rather than one per fragment. Each particle keeps its own
+ * position / rotation / scale plus color, emissive and opacity, which are
+ * written into per-instance buffers (the last two through a small shader
+ * patch on the shared material).
+ *
+ * tweenInstances() adds one GSAP tween per particle batch to a timeline and
+ * writes the per-particle results straight into those buffers, so timelines
+ * stay scrubbable without creating thousands of individual tweens.
+ */
+
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { DEFAULT_SCENE_SEED, Random, createRandom } from './random';
+
+export interface InstancedParticle {
+  // Position of this particle in the flat particle list
+  index: number;
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  scale: THREE.Vector3;
+  color: THREE.Color;
+  emissive: THREE.Color;
+  emissiveIntensity: number;
+  // Multiplied with the shared material's opacity
+  opacity: number;
+  userData: Record<string, unknown>;
+}
+
+export interface InstancedParticleSystem {
+  // Holds one InstancedMesh per geometry
+  group: THREE.Group;
+  meshes: THREE.InstancedMesh[];
+  particles: InstancedParticle[];
+  // Shared by every mesh, its opacity fades the whole set
+  material: THREE.MeshStandardMaterial;
+  // Copy one particle's state into the instance buffers
+  write(particle: InstancedParticle): void;
+  // Copy every particle's state into the instance buffers
+  update(): void;
+  // Particle hit by a raycast against `meshes`, if any
+  particleFromIntersection(intersection: THREE.Intersection): InstancedParticle | null;
+  dispose(): void;
+}
+
+export interface InstancedParticleOptions {
+  geometries: THREE.BufferGeometry[];
+  // Its color and emissive are replaced by the per-instance values
+  material: THREE.MeshStandardMaterial;
+  count: number;
+  // Geometry used for each particle, picked at random by default
+  geometryIndex?: (index: number) => number;
+  // Stream for the default geometry picks, so the mix is the same on every load
+  random?: Random;
+  // Called once per particle to set its starting state
+  init?: (particle: InstancedParticle) => void;
+}
+
+// Per-instance emissive (color premultiplied by intensity) and opacity
+const patchMaterial = (material: THREE.MeshStandardMaterial) => {
+  material.onBeforeCompile = shader => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        attribute vec3 instanceEmissive;
+        attribute float instanceOpacity;
+        varying vec3 vInstanceEmissive;
+        varying float vInstanceOpacity;`
+      )
+      .replace(
+        '#include <begin_vertex>',
+        `#include <begin_vertex>
+        vInstanceEmissive = instanceEmissive;
+        vInstanceOpacity = instanceOpacity;`
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        varying vec3 vInstanceEmissive;
+        varying float vInstanceOpacity;`
+      )
+      .replace(
+        '#include <color_fragment>',
+        `#include <color_fragment>
+        diffuseColor.a *= vInstanceOpacity;`
+      )
+      .replace(
+        '#include <emissivemap_fragment>',
+        `#include <emissivemap_fragment>
+        totalEmissiveRadiance *= vInstanceEmissive;`
+      );
+  };
+  material.customProgramCacheKey = () => 'instanced-particles';
+  // The per-instance values are multiplied with these
+  material.color.set(0xffffff);
+  material.emissive.set(0xffffff);
+  material.emissiveIntensity = 1;
+  material.needsUpdate = true;
+};
+
+/**
+ * Create a particle set drawn with one InstancedMesh per geometry
+ */
+export function createInstancedParticles(options: InstancedParticleOptions): InstancedParticleSystem {
+  const { geometries, material, count } = options;
+  const random = options.random ?? createRandom(DEFAULT_SCENE_SEED).fork('instanced-particles');
+  const pickGeometry = options.geometryIndex ?? (() => random.int(0, geometries.length));
+
+  patchMaterial(material);
+
+  // Decide each particle's mesh up front so every mesh is sized exactly
+  const meshIndices = Array.from({ length: count }, (_, index) => pickGeometry(index) % geometries.length);
+  const meshCounts = geometries.map((_, meshIndex) => meshIndices.filter(value => value === meshIndex).length);
+
+  const group = new THREE.Group();
+  const meshes = geometries.map((sourceGeometry, meshIndex) => {
+    const capacity = Math.max(meshCounts[meshIndex], 1);
+    // Instance attributes live on the geometry, so each mesh gets its own copy
+    const geometry = sourceGeometry.clone();
+    geometry.setAttribute('instanceEmissive', new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3));
+    geometry.setAttribute('instanceOpacity', new THREE.InstancedBufferAttribute(new Float32Array(capacity).fill(1), 1));
+
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.count = meshCounts[meshIndex];
+    // An unused geometry still holds one slot; collapse it so a particle budget can't reveal it
+    if (meshCounts[meshIndex] === 0) mesh.setMatrixAt(0, new THREE.Matrix4().makeScale(0, 0, 0));
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3).fill(1), 3);
+    mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    // Particles travel far from where they start, so a cached bounding sphere would cull them
+    mesh.frustumCulled = false;
+    group.add(mesh);
+    return mesh;
+  });
+
+  // Where each particle lives: [mesh, slot]
+  const slots: [number, number][] = [];
+  const nextSlot = geometries.map(() => 0);
+  const particles: InstancedParticle[] = meshIndices.map((meshIndex, index) => {
+    slots.push([meshIndex, nextSlot[meshIndex]++]);
+    return {
+      index,
+      position: new THREE.Vector3(),
+      rotation: new THREE.Euler(),
+      scale: new THREE.Vector3(1, 1, 1),
+      color: new THREE.Color(0xffffff),
+      emissive: new THREE.Color(0x000000),
+      emissiveIntensity: 1,
+      opacity: 1,
+      userData: {}
+    };
+  });
+  // Reverse lookup for raycasting: mesh -> slot -> particle
+  const particlesBySlot = meshes.map(() => [] as InstancedParticle[]);
+  particles.forEach(particle => {
+    const [meshIndex, slot] = slots[particle.index];
+    particlesBySlot[meshIndex][slot] = particle;
+  });
+
+  const matrix = new THREE.Matrix4();
+  const quaternion = new THREE.Quaternion();
+
+  const writeSlot = (particle: InstancedParticle) => {
+    const [meshIndex, slot] = slots[particle.index];
+    const mesh = meshes[meshIndex];
+
+    quaternion.setFromEuler(particle.rotation);
+    matrix.compose(particle.position, quaternion, particle.scale);
+    mesh.setMatrixAt(slot, matrix);
+    mesh.setColorAt(slot, particle.color);
+
+    const emissive = mesh.geometry.getAttribute('instanceEmissive') as THREE.InstancedBufferAttribute;
+    emissive.setXYZ(
+      slot,
+      particle.emissive.r * particle.emissiveIntensity,
+      particle.emissive.g * particle.emissiveIntensity,
+      particle.emissive.b * particle.emissiveIntensity
+    );
+    (mesh.geometry.getAttribute('instanceOpacity') as THREE.InstancedBufferAttribute).setX(slot, particle.opacity);
+    return mesh;
+  };
+
+  const flagForUpload = (mesh: THREE.InstancedMesh) => {
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.geometry.getAttribute('instanceEmissive').needsUpdate = true;
+    mesh.geometry.getAttribute('instanceOpacity').needsUpdate = true;
+    // Recomputed lazily the next time the mesh is raycast
+    mesh.boundingSphere = null;
+  };
+
+  const update = () => {
+    particles.forEach(writeSlot);
+    meshes.forEach(flagForUpload);
+  };
+
+  particles.forEach(particle => options.init?.(particle));
+  update();
+
+  return {
+    group,
+    meshes,
+    particles,
+    material,
+    write(particle) {
+      flagForUpload(writeSlot(particle));
+    },
+    update,
+    particleFromIntersection(intersection) {
+      const meshIndex = meshes.findIndex(mesh => mesh === intersection.object);
+      if (meshIndex === -1 || intersection.instanceId === undefined) return null;
+      return particlesBySlot[meshIndex][intersection.instanceId] ?? null;
+    },
+    dispose() {
+      group.removeFromParent();
+      meshes.forEach(mesh => {
+        mesh.geometry.dispose();
+        mesh.dispose();
+      });
+      material.dispose();
+    }
+  };
+}
+
+export interface InstanceTweenVars {
+  // Seconds each particle takes, in timeline time
+  duration: number;
+  ease?: string;
+  // Start of each particle relative to the tween's position, in timeline time
+  stagger?: (particle: InstancedParticle, index: number) => number;
+  // Set the particle's state for its eased progress (0..1); it is written to the buffers afterwards
+  update: (particle: InstancedParticle, progress: number) => void;
+}
+
+/**
+ * Animate many instanced particles with a single tween on `timeline`
+ * (returned, like timeline.to, for chaining).
+ * `update` must derive the particle's state from `progress` alone (e.g. by
+ * interpolating values kept in userData), which keeps scrubbing in both
+ * directions exact.
+ */
+export function tweenInstances(
+  timeline: gsap.core.Timeline,
+  system: InstancedParticleSystem,
+  vars: InstanceTweenVars,
+  position: gsap.Position,
+  particles: InstancedParticle[] = system.particles
+): gsap.core.Timeline {
+  const ease = gsap.parseEase(vars.ease ?? 'none');
+  const offsets = particles.map((particle, index) => vars.stagger?.(particle, index) ?? 0);
+  const total = Math.max(0, ...offsets) + vars.duration;
+  const clock = { time: 0 };
+
+  return timeline.to(clock, {
+    time: total,
+    duration: total,
+    ease: 'none',
+    onUpdate: () => {
+      particles.forEach((particle, index) => {
+        const local = Math.min(Math.max((clock.time - offsets[index]) / vars.duration, 0), 1);
+        vars.update(particle, ease(local));
+        system.write(particle);
+      });
+    }
+  }, position);
+}
@@ -0,0 +1,62 @@
+/**
+ * journeyCameras.ts
+ *
+ * Camera paths of the journey scenes as keyframes for cameraRig.ts. Retime
+ * or reframe a shot here, or capture new keyframes with the scene
+ * inspector's camera editor (`?inspect` in development) and paste its export
+ * over the spec.
+ */
+
+import { CameraRigSpec } from './cameraRig';
+
+// Viewports narrower than this use a rig's `mobile` variant
+export const CAMERA_MOBILE_BREAKPOINT = 768;
+
+/**
+ * Variant of a rig to use at a viewport width
+ */
+export function getCameraRigVariant(width: number): string | null {
+  return width < CAMERA_MOBILE_BREAKPOINT ? 'mobile' : null;
+}
+
+// DataProtectionJourney: eases out to show the data compressing, orbits
+// slightly over the swirling fragments, then pushes in on the lock
+export const JOURNEY_CAMERA_RIG: CameraRigSpec = {
+  keyframes: [
+    { at: 0, position: [0, 0, 5], target: [0, 0, 0], fov: 65 },
+    { at: 0.4, position: [0, 0.2, 4.5], target: [0, 0.2, 0], fov: 65 },
+    { at: 0.8, position: [-0.2, 0.4, 4], target: [-0.2, 0.4, 0], fov: 65 },
+    { at: 1, position: [-0.1, 0.2, 3.2], target: [-0.1, 0.2, 0], fov: 65 }
+  ],
+  variants: {
+    // Wider field of view and pulled back so the scene fits small screens
+    mobile: [
+      { at: 0, position: [0, 0.2, 6], target: [0, 0.2, 0], fov: 75 },
+      { at: 0.4, position: [0, 0.3, 5.5], target: [0, 0.3, 0], fov: 75 },
+      { at: 0.8, position: [-0.1, 0.3, 5], target: [-0.1, 0.3, 0], fov: 75 },
+      { at: 1, position: [-0.05, 0.3, 4.2], target: [-0.05, 0.3, 0], fov: 75 }
+    ]
+  }
+};
+
+// QuantaMorphicVisualization: sinks past the scene while swinging from side
+// to side, always looking at its center
+export const VISUALIZATION_CAMERA_RIG: CameraRigSpec = {
+  keyframes: [
+    { at: 0, position: [0, 2, 8], target: [0, 0, 0], fov: 60 },
+    { at: 0.3, position: [2, 0.8, 8], target: [0, 0, 0], fov: 60 },
+    { at: 0.5, position: [0, 0, 8], target: [0, 0, 0], fov: 60 },
+    { at: 0.7, position: [-2, -0.8, 8], target: [0, 0, 0], fov: 60 },
+    { at: 1, position: [0, -2, 8], target: [0, 0, 0], fov: 60 }
+  ],
+  variants: {
+    // Narrower swing from further out, so the objects stay on a portrait screen
+    mobile: [
+      { at: 0, position: [0, 2, 10], target: [0, 0, 0], fov: 60 },
+      { at: 0.3, position: [1, 0.8, 10], target: [0, 0, 0], fov: 60 },
+      { at: 0.5, position: [0, 0, 10], target: [0, 0, 0], fov: 60 },
+      { at: 0.7, position: [-1, -0.8, 10], target: [0, 0, 0], fov: 60 },
+      { at: 1, position: [0, -2, 10], target: [0, 0, 0], fov: 60 }
+    ]
+  }
+};
@@ -0,0 +1,215 @@
+/**
+ * journeyChoreography.ts
+ *
+ * The Shrink/Shred/Secure choreography of DataProtectionJourney as data, see
+ * timelineSpec.ts for how beats are read. Retime or add beats here; the
+ * per-particle motions the beats name live in journeyTimeline.ts. The
+ * camera follows its own keyframed rig (journeyCameras.ts).
+ * validateTimelineSpec(JOURNEY_CHOREOGRAPHY) must come back empty.
+ */
+
+import { TimelineSpec } from './timelineSpec';
+
+// Objects the choreography animates, bound to the scene in journeyTimeline.ts
+export type JourneyTarget =
+  | 'dataGroup'
+  | 'dataParticles'
+  | 'dataParticles.material'
+  | 'shredGroup'
+  | 'shredParticles'
+  | 'shredParticles.material'
+  | 'secureGroup.rotation'
+  | 'shackle.position'
+  | 'shackle.rotation'
+  | 'shackle.scale'
+  | 'spark.material'
+  | 'spark.scale';
+
+export type JourneyMotion =
+  | 'shrink-to-center'
+  | 'explode'
+  | 'tumble'
+  | 'spiral-in'
+  | 'converge-glow'
+  | 'converge-spin'
+  | 'fade-out';
+
+export const JOURNEY_CHOREOGRAPHY: TimelineSpec<JourneyTarget, JourneyMotion> = [
+  // ===== Starting state =====
+  { id: 'data-shown', target: 'dataGroup', start: { phase: 'shrink', at: 0 }, to: { visible: true } },
+  { id: 'shred-hidden', target: 'shredGroup', start: { phase: 'shrink', at: 0 }, to: { visible: false } },
+  // The padlock is present but fully unlocked from the beginning
+  { id: 'shackle-raised', target: 'shackle.position', start: { phase: 'shrink', at: 0 }, to: { y: 0.2 } },
+  { id: 'shackle-swung-open', target: 'shackle.rotation', start: { phase: 'shrink', at: 0 }, to: { x: -Math.PI * 0.75 } },
+
+  // ===== Shrink =====
+  {
+    id: 'data-shrink',
+    target: 'dataParticles',
+    motion: 'shrink-to-center',
+    start: { phase: 'shrink', at: 0 },
+    end: { phase: 'shrink', at: 1 },
+    ease: 'sine.inOut'
+  },
+  // Fade the data out just before the shred stage takes over
+  {
+    id: 'data-fade',
+    target: 'dataParticles.material',
+    start: { phase: 'shrink', at: 0.85 },
+    end: { phase: 'shred', at: 0 },
+    ease: 'sine.inOut',
+    to: { opacity: 0 }
+  },
+
+  // ===== Shred =====
+  { id: 'data-hidden', target: 'dataGroup', start: { phase: 'shred', at: 0 }, to: { visible: false } },
+  { id: 'shred-shown', target: 'shredGroup', start: { phase: 'shred', at: 0 }, to: { visible: true } },
+  {
+    id: 'shred-fade-in',
+    target: 'shredParticles.material',
+    start: { phase: 'shred', at: 0 },
+    end: { phase: 'shred', at: 1 / 3 },
+    ease: 'sine.inOut',
+    from: { opacity: 0 },
+    to: { opacity: 1 }
+  },
+  {
+    id: 'shred-explode',
+    target: 'shredParticles',
+    motion: 'explode',
+    start: { phase: 'shred', at: 0 },
+    end: { phase: 'shred', at: 1 },
+    ease: 'power4.out',
+    stagger: { amount: 0.05 }
+  },
+  {
+    id: 'shred-tumble',
+    target: 'shredParticles',
+    motion: 'tumble',
+    start: { phase: 'shred', at: 0 },
+    end: { phase: 'shred', at: 1 },
+    stagger: { amount: 0.05 }
+  },
+
+  // ===== Secure =====
+  // The shackle drops shut in one motion over the first third of the secure stage,
+  // so the lock is closed by 80% of the journey
+  {
+    id: 'shackle-close',
+    target: 'shackle.rotation',
+    start: { phase: 'secure', at: 0 },
+    end: { phase: 'secure', at: 1 / 3 },
+    ease: 'back.out(1.5)',
+    to: { x: 0 }
+  },
+  {
+    id: 'shackle-slide-down',
+    target: 'shackle.position',
+    start: { phase: 'secure', at: 0 },
+    end: { phase: 'secure', at: 1 / 3 },
+    ease: 'back.out(1.5)',
+    to: { y: 0 }
+  },
+  // Bounce as the lock snaps closed
+  {
+    id: 'shackle-bounce',
+    target: 'shackle.scale',
+    start: { phase: 'secure', at: 1 / 6 },
+    end: { phase: 'secure', at: 0.25 },
+    ease: 'power2.in',
+    from: { x: 1, y: 1, z: 1 },
+    to: { x: 1.25, y: 1.25, z: 1.25 }
+  },
+  {
+    id: 'shackle-settle',
+    target: 'shackle.scale',
+    start: { phase: 'secure', at: 0.25 },
+    end: { phase: 'secure', at: 0.75 },
+    ease: 'elastic.out(1.5, 0.3)',
+    to: { x: 1, y: 1, z: 1 }
+  },
+  // A small spark at the right shackle hole as it closes
+  {
+    id: 'spark-flash',
+    target: 'spark.material',
+    start: { phase: 'secure', at: 0.15 },
+    end: { phase: 'secure', at: 0.2 },
+    ease: 'power4.out',
+    from: { opacity: 0 },
+    to: { opacity: 0.6 }
+  },
+  {
+    id: 'spark-grow',
+    target: 'spark.scale',
+    start: { phase: 'secure', at: 0.15 },
+    end: { phase: 'secure', at: 0.2 },
+    ease: 'power4.out',
+    from: { x: 0.5, y: 0.5, z: 0.5 },
+    to: { x: 0.8, y: 0.8, z: 0.8 }
+  },
+  {
+    id: 'spark-fade',
+    target: 'spark.material',
+    start: { phase: 'secure', at: 0.2 },
+    end: { phase: 'secure', at: 0.5 },
+    ease: 'power2.in',
+    to: { opacity: 0 }
+  },
+  {
+    id: 'spark-shrink',
+    target: 'spark.scale',
+    start: { phase: 'secure', at: 0.2 },
+    end: { phase: 'secure', at: 0.5 },
+    ease: 'power2.in',
+    to: { x: 0.2, y: 0.2, z: 0.2 }
+  },
+  // Face the lock forward as it closes, then turn it just enough (about 9°) to show some depth
+  { id: 'lock-face-front', target: 'secureGroup.rotation', start: { phase: 'secure', at: 0 }, to: { y: 0 } },
+  {
+    id: 'lock-turn',
+    target: 'secureGroup.rotation',
+    start: { phase: 'secure', at: 1 / 6 },
+    end: { phase: 'secure', at: 2 / 3 },
+    ease: 'sine.inOut',
+    from: { y: 0 },
+    to: { y: Math.PI * 0.05 }
+  },
+  // Fragments spiral into the closed lock, glowing and spinning faster, and fade as they arrive
+  {
+    id: 'shred-spiral-in',
+    target: 'shredParticles',
+    motion: 'spiral-in',
+    start: { phase: 'secure', at: 1 / 3 },
+    end: { phase: 'secure', at: 1 },
+    ease: 'power3.in',
+    stagger: { amount: 0.03, pattern: 'waves' }
+  },
+  {
+    id: 'shred-converge-glow',
+    target: 'shredParticles',
+    motion: 'converge-glow',
+    start: { phase: 'secure', at: 1 / 3 },
+    end: { phase: 'secure', at: 2 / 3 },
+    ease: 'power2.in',
+    stagger: { amount: 0.03, pattern: 'waves' }
+  },
+  {
+    id: 'shred-converge-spin',
+    target: 'shredParticles',
+    motion: 'converge-spin',
+    start: { phase: 'secure', at: 1 / 3 },
+    end: { phase: 'secure', at: 1 },
+    ease: 'power2.in',
+    stagger: { amount: 0.03, pattern: 'waves' }
+  },
+  {
+    id: 'shred-fade-out',
+    target: 'shredParticles',
+    motion: 'fade-out',
+    start: { phase: 'secure', at: 1 / 3 },
+    end: { phase: 'secure', at: 1 },
+    ease: 'power1.inOut',
+    stagger: { amount: 0.05, pattern: 'random' }
+  },
+  { id: 'shred-hidden-in-lock', target: 'shredGroup', start: { phase: 'secure', at: 1 }, to: { visible: false } }
+];
@@ -0,0 +1,148 @@
+/**
+ * journeyDrivers.ts
+ *
+ * Drivers decide what moves the data protection journey's timeline: page
+ * scroll, a clock, or a parent component. The journey only ever sees a
+ * progress value between 0 and 1, so the same scene can run in the hero,
+ * a modal demo, a kiosk loop or an embed.
+ */
+
+import { gsap } from 'gsap';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+
+export type JourneyProgressListener = (progress: number) => void;
+
+export interface JourneyDriver {
+  // Start feeding progress to the listener, returns a function that detaches it
+  attach(listener: JourneyProgressListener): () => void;
+  // Optional playback control, used by drivers that advance on their own
+  pause?(): void;
+  resume?(): void;
+}
+
+export interface ManualJourneyDriver extends JourneyDriver {
+  setProgress(progress: number): void;
+  getProgress(): number;
+  // Subscribe to progress changes, e.g. to keep a scrubber in sync
+  subscribe(listener: JourneyProgressListener): () => void;
+}
+
+export interface ScrollDriverOptions {
+  // Selector or element whose scroll position drives the journey
+  trigger: string | Element;
+  // Used to find this trigger again, e.g. in dev tools
+  id?: string;
+  start?: string;
+  end?: string;
+  // Seconds the timeline takes to catch up with the scrollbar
+  scrub?: number | boolean;
+}
+
+export interface AutoplayDriverOptions {
+  // Seconds for one pass from 0 to 1
+  duration: number;
+  loop?: boolean;
+  // Seconds to hold the finished state before looping
+  holdSeconds?: number;
+  ease?: string;
+}
+
+const clampProgress = (progress: number) => Math.min(Math.max(progress, 0), 1);
+
+/**
+ * Progress follows the scroll position through the trigger element
+ */
+export function createScrollDriver({
+  trigger,
+  id,
+  start = 'top top',
+  end = '+=150%',
+  scrub = 3
+}: ScrollDriverOptions): JourneyDriver {
+  return {
+    attach: listener => {
+      if (typeof window === 'undefined') return () => {};
+      gsap.registerPlugin(ScrollTrigger);
+
+      const scrollTrigger = ScrollTrigger.create({
+        id,
+        trigger,
+        start,
+        end,
+        scrub,
+        pin: false, // Pinning is left to the page to avoid conflicts
+        onLeaveBack: self => {
+          // Ensure animation is reset when scrolling back to the top
+          if (self.progress < 0.1) listener(0);
+        },
+        onUpdate: self => listener(self.progress)
+      });
+
+      // Pick up the current scroll position when attaching mid-page
+      if (scrollTrigger.progress > 0) listener(scrollTrigger.progress);
+
+      return () => scrollTrigger.kill();
+    }
+  };
+}
+
+/**
+ * Progress advances with time, optionally looping (e.g. for a kiosk)
+ */
+export function createAutoplayDriver({
+  duration,
+  loop = false,
+  holdSeconds = 0,
+  ease = 'none'
+}: AutoplayDriverOptions): JourneyDriver {
+  const tweens = new Set<gsap.core.Tween>();
+
+  return {
+    attach: listener => {
+      const state = { progress: 0 };
+      const tween = gsap.to(state, {
+        progress: 1,
+        duration,
+        ease,
+        repeat: loop ? -1 : 0,
+        repeatDelay: holdSeconds,
+        onStart: () => listener(0),
+        onUpdate: () => listener(state.progress)
+      });
+      tweens.add(tween);
+
+      return () => {
+        tween.kill();
+        tweens.delete(tween);
+      };
+    },
+    pause: () => tweens.forEach(tween => tween.pause()),
+    resume: () => tweens.forEach(tween => tween.resume())
+  };
+}
+
+/**
+ * Progress is set by code, e.g. a scrubber or a parent's own state machine
+ */
+export function createManualDriver(initialProgress = 0): ManualJourneyDriver {
+  let progress = clampProgress(initialProgress);
+  const listeners = new Set<JourneyProgressListener>();
+
+  const subscribe = (listener: JourneyProgressListener) => {
+    listeners.add(listener);
+    listener(progress);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    attach: subscribe,
+    subscribe,
+    setProgress: value => {
+      progress = clampProgress(value);
+      listeners.forEach(listener => listener(progress));
+    },
+    getProgress: () => progress
+  };
+}
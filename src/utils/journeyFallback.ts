@@ -0,0 +1,157 @@
+/**
+ * journeyFallback.ts
+ *
+ * SVG version of the Shrink/Shred/Secure journey for browsers without WebGL.
+ * Built with plain DOM calls so the React components and the standalone
+ * renderers share one implementation. Positions are derived from the
+ * progress value alone, so scrubbing backwards works like the 3D timeline.
+ */
+
+import { PHASE_BY_ID, getPhaseAtProgress, getPhaseProgress } from './phases';
+
+export interface JourneyFallback {
+  element: SVGSVGElement;
+  // Redraw for the given journey progress (0..1)
+  update(progress: number): void;
+  dispose(): void;
+}
+
+export interface JourneyFallbackOptions {
+  // Show the active phase label under the illustration
+  showCaption?: boolean;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 400;
+const HEIGHT = 300;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 - 10 };
+
+const DATA_BLOCK_COUNT = 12;
+const FRAGMENT_COUNT = 24;
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const createElement = <K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+};
+
+/**
+ * Mount the SVG journey into a container
+ */
+export function createJourneyFallback(container: HTMLElement, options: JourneyFallbackOptions = {}): JourneyFallback {
+  const { showCaption = true } = options;
+
+  const svg = createElement('svg', {
+    viewBox: `0 0 ${WIDTH} ${HEIGHT}`,
+    width: '100%',
+    height: '100%',
+    preserveAspectRatio: 'xMidYMid meet',
+    role: 'img',
+    'aria-label': 'Data is shrunk, shredded into fragments and secured in a lock'
+  });
+
+  // Shrink: a grid of data blocks that contracts toward the center
+  const blocks = Array.from({ length: DATA_BLOCK_COUNT }, (_, index) => {
+    const column = index % 4;
+    const row = Math.floor(index / 4);
+    const block = createElement('rect', { rx: 3, fill: PHASE_BY_ID.shrink.color });
+    svg.appendChild(block);
+    return { block, home: { x: CENTER.x + (column - 1.5) * 48, y: CENTER.y + (row - 1) * 48 } };
+  });
+
+  // Shred: fragments burst outward, then spiral into the lock
+  const fragments = Array.from({ length: FRAGMENT_COUNT }, (_, index) => {
+    const angle = (index / FRAGMENT_COUNT) * Math.PI * 2;
+    const distance = 70 + (index % 3) * 30;
+    const fragment = createElement('polygon', { points: '0,-6 5,4 -5,4', fill: PHASE_BY_ID.shred.color });
+    svg.appendChild(fragment);
+    return {
+      fragment,
+      angle,
+      target: { x: CENTER.x + Math.cos(angle) * distance * 1.4, y: CENTER.y + Math.sin(angle) * distance }
+    };
+  });
+
+  // Secure: padlock whose shackle drops shut
+  const lock = createElement('g', {});
+  const shackle = createElement('path', {
+    d: `M ${CENTER.x - 22} ${CENTER.y} v -18 a 22 22 0 0 1 44 0 v 18`,
+    fill: 'none',
+    stroke: '#c0c0c0',
+    'stroke-width': 8,
+    'stroke-linecap': 'round'
+  });
+  const body = createElement('rect', {
+    x: CENTER.x - 36,
+    y: CENTER.y - 4,
+    width: 72,
+    height: 56,
+    rx: 8,
+    fill: '#c0c0c0'
+  });
+  const keyhole = createElement('circle', { cx: CENTER.x, cy: CENTER.y + 22, r: 6, fill: '#1f2937' });
+  lock.append(shackle, body, keyhole);
+  svg.appendChild(lock);
+
+  const caption = createElement('text', {
+    x: CENTER.x,
+    y: HEIGHT - 16,
+    'text-anchor': 'middle',
+    'font-size': 16,
+    'font-weight': 600,
+    'font-family': 'inherit'
+  });
+  if (showCaption) svg.appendChild(caption);
+
+  container.appendChild(svg);
+
+  const update = (progress: number) => {
+    const shrink = easeOut(getPhaseProgress(progress, 'shrink'));
+    const shred = easeOut(getPhaseProgress(progress, 'shred'));
+    const secure = getPhaseProgress(progress, 'secure');
+    // Fragments converge during the first third of the secure stage, like the 3D journey
+    const converge = easeOut(Math.min(secure * 3, 1));
+
+    blocks.forEach(({ block, home }) => {
+      const size = lerp(28, 8, shrink);
+      const x = lerp(home.x, CENTER.x, shrink * 0.85);
+      const y = lerp(home.y, CENTER.y, shrink * 0.85);
+      block.setAttribute('x', String(x - size / 2));
+      block.setAttribute('y', String(y - size / 2));
+      block.setAttribute('width', String(size));
+      block.setAttribute('height', String(size));
+      block.setAttribute('opacity', String(progress < PHASE_BY_ID.shred.start ? 1 : 0));
+    });
+
+    fragments.forEach(({ fragment, angle, target }) => {
+      const x = lerp(lerp(CENTER.x, target.x, shred), CENTER.x, converge);
+      const y = lerp(lerp(CENTER.y, target.y, shred), CENTER.y + 20, converge);
+      const rotation = (angle * 180) / Math.PI + shred * 360;
+      fragment.setAttribute('transform', `translate(${x} ${y}) rotate(${rotation}) scale(${1 - converge * 0.8})`);
+      const visible = progress >= PHASE_BY_ID.shred.start && converge < 1;
+      fragment.setAttribute('opacity', String(visible ? 1 : 0));
+    });
+
+    // Lock fades in during shred and closes over the secure stage
+    lock.setAttribute('opacity', String(lerp(0.35, 1, Math.max(shred * 0.5, Math.min(secure * 2, 1)))));
+    shackle.setAttribute('transform', `translate(0 ${lerp(-16, 0, easeOut(secure))})`);
+    const lockColor = secure >= 1 ? PHASE_BY_ID.secure.color : '#c0c0c0';
+    shackle.setAttribute('stroke', lockColor);
+    body.setAttribute('fill', lockColor);
+
+    const phase = getPhaseAtProgress(progress);
+    caption.textContent = phase.label;
+    caption.setAttribute('fill', phase.color);
+  };
+
+  update(0);
+
+  return {
+    element: svg,
+    update,
+    dispose: () => svg.remove()
+  };
+}
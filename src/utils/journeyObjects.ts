@@ -0,0 +1,490 @@
+/**
+ * journeyObjects.ts
+ *
+ * The Shrink/Shred/Secure journey's scene graph: data particles, shred
+ * fragments and the padlock with its orbiting particles, plus the fog the
+ * journey renders in. DataProtectionJourney and the worker renderer
+ * (journeyScene.ts) both build their picture here and light it with the
+ * 'journey' preset from sceneLights.ts, so the two render modes show the same
+ * scene. Nothing in here touches the DOM.
+ */
+
+import * as THREE from 'three';
+import { gsap } from 'gsap';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import { InstancedParticleSystem, createInstancedParticles } from './instancedParticles';
+import { ResourceTracker, createResourceTracker } from './resourceTracker';
+import { markBloom } from './sceneEffects';
+import { findModelPart, loadModel } from './modelAssets';
+import { Random } from './random';
+import { JOURNEY_PARTICLE_COUNTS } from './journeyTimeline';
+
+export interface JourneyObjectsOptions {
+  // The journey's stream (see random.ts); the layout draws from its 'objects' fork
+  random: Random;
+  // Start the orbit, pulse and sway tweens (default true). Snapshots leave them out
+  ambient?: boolean;
+  // Swap in the artist-supplied lock model when public/models lists one (default true)
+  lockModel?: boolean;
+  // Called when the objects change outside the timeline, e.g. once the lock model is in
+  onChange?: () => void;
+}
+
+export interface JourneyObjects {
+  dataGroup: THREE.Group;
+  shredGroup: THREE.Group;
+  secureGroup: THREE.Group;
+  // Pivot the shackle swings around, at the left hole
+  shackle: THREE.Group;
+  // Flash at the right hole as the lock closes
+  spark: THREE.Mesh;
+  dataParticles: InstancedParticleSystem;
+  shredParticles: InstancedParticleSystem;
+  // Lock body material, state snapshots read the lock's opacity from it
+  lockMaterial: THREE.MeshPhysicalMaterial;
+  // Endless orbit, pulse and sway tweens, for the caller to pause while motion is reduced
+  ambientTweens: gsap.core.Tween[];
+  // Every geometry, material and texture above, the lock model's included
+  resources: ResourceTracker;
+  // Kill the ambient tweens, stop waiting for the lock model, release the resources and detach the groups
+  dispose(): void;
+}
+
+// Fog the far particles fade into
+export const createJourneyFog = () => new THREE.FogExp2(0x000000, 0.03);
+
+// Fragments of a lost share are greyed out
+const LOST_SHARE_COLOR = new THREE.Color(0x3a3a3a);
+const LOST_SHARE_EMISSIVE = new THREE.Color(0x330000);
+
+/**
+ * Assign the shred fragments to key shares in turn (by share x value) and grey
+ * out the fragments of lost shares; null `shareXs` clears the assignment. Only
+ * instance colors change, so the timeline's opacity and position tweens are untouched.
+ */
+export function applyShareColors(
+  shredParticles: InstancedParticleSystem,
+  shareXs: readonly number[] | null,
+  lostShares: readonly number[]
+): void {
+  shredParticles.particles.forEach((particle, i) => {
+    if (!particle.userData.originalColor) {
+      particle.userData.originalColor = particle.color.clone();
+      particle.userData.originalEmissive = particle.emissive.clone();
+    }
+
+    const shareX = shareXs?.length ? shareXs[i % shareXs.length] : null;
+    particle.userData.shareX = shareX;
+
+    const isLost = shareX !== null && lostShares.includes(shareX);
+    particle.color.copy(isLost ? LOST_SHARE_COLOR : particle.userData.originalColor as THREE.Color);
+    particle.emissive.copy(isLost ? LOST_SHARE_EMISSIVE : particle.userData.originalEmissive as THREE.Color);
+  });
+  shredParticles.update();
+}
+
+/**
+ * Build the journey's objects. The same `random` stream always gives the same
+ * layout, so a seed reproduces the picture in either render mode.
+ */
+export function createJourneyObjects(options: JourneyObjectsOptions): JourneyObjects {
+  const { random, ambient = true, lockModel = true, onChange } = options;
+  // Particle layout, rotations and colors repeat exactly for a given seed
+  const objectRandom = random.fork('objects');
+
+  // 1. Data group (initial state)
+  const dataGroup = new THREE.Group();
+  // Named after the journeyState.ts object ids, which the scene inspector lists them by
+  dataGroup.name = 'data';
+
+  // Data particles (representing raw data), drawn as one instanced mesh per geometry.
+  // A mix of geometries for more visual interest
+  const geometries = [
+    new THREE.BoxGeometry(0.25, 0.25, 0.25),
+    new THREE.SphereGeometry(0.15, 12, 12),
+    new THREE.OctahedronGeometry(0.2)
+  ];
+
+  // Enhanced material with higher emission and reflectivity, shared by every particle
+  const particleMaterial = new THREE.MeshPhysicalMaterial({
+    roughness: 0.1,
+    metalness: 0.9,
+    reflectivity: 1.0,
+    clearcoat: 0.5,
+    clearcoatRoughness: 0.2,
+    envMapIntensity: 1.5
+  } as THREE.MeshPhysicalMaterialParameters);
+
+  const dataParticles = createInstancedParticles({
+    geometries,
+    material: particleMaterial,
+    count: JOURNEY_PARTICLE_COUNTS.data,
+    random: objectRandom,
+    init: particle => {
+      // Random position within a sphere
+      const theta = objectRandom.range(0, Math.PI * 2);
+      const phi = Math.acos(objectRandom.range(-1, 1));
+      const radius = objectRandom.range(2, 3);
+
+      particle.position.set(
+        radius * Math.sin(phi) * Math.cos(theta),
+        radius * Math.sin(phi) * Math.sin(theta),
+        radius * Math.cos(phi)
+      );
+
+      // Random rotation
+      particle.rotation.set(objectRandom.range(0, Math.PI), objectRandom.range(0, Math.PI), objectRandom.range(0, Math.PI));
+
+      particle.color.set(0x3498db);
+      particle.emissive.set(0x0088ff);
+      particle.emissiveIntensity = 0.8;
+    }
+  });
+  // The instanced meshes hold their own copies of the geometries
+  geometries.forEach(geometry => geometry.dispose());
+  dataGroup.add(dataParticles.group);
+
+  // 2. Shred group (intermediate state), hidden until the shred stage
+  const shredGroup = new THREE.Group();
+  shredGroup.name = 'shred';
+  shredGroup.visible = false;
+
+  // Shredded particles (representing data being broken down).
+  // Instancing keeps this at one draw call per geometry however many fragments there are
+  const shredGeometries = [
+    new THREE.TetrahedronGeometry(0.12),
+    new THREE.OctahedronGeometry(0.1, 0),
+    new THREE.IcosahedronGeometry(0.08, 0)
+  ];
+
+  // Enhanced material with stronger emission and better light response
+  const shredMaterial = new THREE.MeshPhysicalMaterial({
+    roughness: 0.3,
+    metalness: 0.7,
+    reflectivity: 0.8,
+    clearcoat: 0.3,
+    transmission: 0.1, // Slight transparency
+    transparent: true
+  } as THREE.MeshPhysicalMaterialParameters);
+
+  const shredParticles = createInstancedParticles({
+    geometries: shredGeometries,
+    material: shredMaterial,
+    count: JOURNEY_PARTICLE_COUNTS.shred,
+    random: objectRandom,
+    init: particle => {
+      // Slight color variation per fragment
+      const hueShift = objectRandom.centered(0.1);
+      particle.color.set(0xff9500).offsetHSL(hueShift, 0, 0);
+      particle.emissive.set(0xff5500).offsetHSL(hueShift, 0, 0);
+      particle.emissiveIntensity = 1.0;
+
+      // Cluster around center initially
+      particle.position.set(
+        objectRandom.centered(0.5),
+        objectRandom.centered(0.5),
+        objectRandom.centered(0.5)
+      );
+
+      // Random rotation
+      particle.rotation.set(objectRandom.range(0, Math.PI), objectRandom.range(0, Math.PI), objectRandom.range(0, Math.PI));
+
+      // Random scale for variety
+      particle.scale.setScalar(objectRandom.range(0.5, 1.5));
+    }
+  });
+  shredGeometries.forEach(geometry => geometry.dispose());
+  shredGroup.add(shredParticles.group);
+
+  // 3. Secure group (final state): a padlock whose shackle swings shut, present throughout the journey
+  const secureGroup = new THREE.Group();
+  secureGroup.name = 'lock';
+
+  // Classic padlock proportions - wider than tall with more rounding at the top
+  const lockBodyWidth = 0.62;
+  const lockBodyHeight = 0.48;
+  const lockBodyDepth = 0.28;
+
+  // The main body, with rounded corners for a more realistic appearance
+  const lockBodyGeometry = new RoundedBoxGeometry(
+    lockBodyWidth,
+    lockBodyHeight,
+    lockBodyDepth,
+    16,    // More segments for smoother corners
+    0.14   // Corner radius, for more curvature especially at the top
+  );
+
+  // Subtle edge highlighting for better definition
+  const lockBodyLines = new THREE.LineSegments(
+    new THREE.EdgesGeometry(lockBodyGeometry),
+    new THREE.LineBasicMaterial({ color: 0xcccccc, transparent: true, opacity: 0.3 })
+  );
+
+  // Low-profile posts at the top of the body where the shackle connects
+  const postWidth = 0.12;
+  const postHeight = 0.02;
+  const postDepth = 0.22;
+  const postSpacing = 0.36; // Distance between posts, matching the shackle arc
+
+  // Post material - close to the lock body color for an integrated look
+  const postMaterial = new THREE.MeshPhysicalMaterial({
+    color: 0xd8d8d8,
+    emissive: 0x666666,
+    emissiveIntensity: 0.01,
+    roughness: 0.2,
+    metalness: 0.9,
+    reflectivity: 0.9,
+    clearcoat: 0.7,
+    clearcoatRoughness: 0.2,
+    envMapIntensity: 1.0
+  } as THREE.MeshPhysicalMaterialParameters);
+
+  // Holes where the shackle inserts, aligned with the top of the posts
+  const holeRadius = 0.032; // Matches the shackle thickness exactly
+  const holeDepth = 0.14;
+  const holeYOffset = lockBodyHeight / 2 + postHeight / 2;
+
+  // Dark hole material for visual depth
+  const holeMaterial = new THREE.MeshBasicMaterial({ color: 0x080808 });
+
+  // Silver lock body material for a realistic metal appearance
+  const lockMaterial = new THREE.MeshPhysicalMaterial({
+    color: 0xc0c0c0,
+    emissive: 0x222222, // Darker emissive for more depth
+    emissiveIntensity: 0.04, // Minimal glow for subtle depth
+    roughness: 0.18,
+    metalness: 0.92,
+    reflectivity: 0.92,
+    clearcoat: 0.7,
+    clearcoatRoughness: 0.15,
+    envMapIntensity: 1.3
+  } as THREE.MeshPhysicalMaterialParameters);
+
+  const lockBody = new THREE.Mesh(lockBodyGeometry, lockMaterial);
+  [-postSpacing / 2, postSpacing / 2].forEach(x => {
+    const post = new THREE.Mesh(new THREE.BoxGeometry(postWidth, postHeight, postDepth), postMaterial);
+    post.position.set(x, lockBodyHeight / 2, 0);
+
+    const hole = new THREE.Mesh(new THREE.CylinderGeometry(holeRadius, holeRadius, holeDepth, 24), holeMaterial);
+    hole.rotation.x = Math.PI / 2;
+    hole.position.set(x, holeYOffset, 0);
+
+    lockBody.add(post, hole);
+  });
+  lockBody.add(lockBodyLines);
+
+  // U-shaped shackle: one half-circle arc from the left hole to the right one
+  const shackleRadius = 0.19;
+  const shackleThickness = 0.032;
+  const shackleHeight = 0.24;
+  const baseY = -0.05; // Where the arc meets the lock body
+  const arcHeight = (shackleHeight + shackleRadius) * 1.5;
+  const arcSegments = 64;
+  const shacklePath = Array.from({ length: arcSegments + 1 }, (_, i) => {
+    const t = i / arcSegments;
+    return new THREE.Vector3(postSpacing * t, baseY + Math.sin(Math.PI * t) * arcHeight, 0);
+  });
+  const shackleCurve = new THREE.CatmullRomCurve3(shacklePath);
+  shackleCurve.tension = 0; // Zero tension for a perfect mathematical arc
+
+  // Bright, chrome-like shackle for clear distinction from the body
+  const shackleMaterial = new THREE.MeshPhysicalMaterial({
+    color: 0xf0f0f0,
+    emissive: 0x444444,
+    emissiveIntensity: 0.04,
+    roughness: 0.06,
+    metalness: 0.99,
+    reflectivity: 0.99,
+    clearcoat: 0.95,
+    clearcoatRoughness: 0.02,
+    envMapIntensity: 2.0
+  });
+  const lockShackle = new THREE.Mesh(
+    new THREE.TubeGeometry(shackleCurve, 128, shackleThickness, 36, false),
+    shackleMaterial
+  );
+
+  // The shackle rotates around a pivot at the left hole, starting closed
+  const shackle = new THREE.Group();
+  shackle.name = 'shackle';
+  shackle.position.set(-postSpacing / 2, holeYOffset, 0);
+  shackle.add(lockShackle);
+
+  // Keyhole near the bottom of the front face: circle, vertical slot and a metallic rim
+  const keyholeMaterial = new THREE.MeshBasicMaterial({ color: 0x000000 });
+  const keyhole = new THREE.Mesh(new THREE.CircleGeometry(0.06, 32), keyholeMaterial);
+  keyhole.position.set(0, -lockBodyHeight / 2 + 0.1, lockBodyDepth / 2 + 0.001);
+
+  const keyholeSlot = new THREE.Mesh(new THREE.BoxGeometry(0.02, 0.08, 0.01), keyholeMaterial);
+  keyholeSlot.position.set(0, -lockBodyHeight / 2 + 0.06, lockBodyDepth / 2 + 0.001);
+
+  const keyholeRim = new THREE.Mesh(
+    new THREE.RingGeometry(0.06, 0.08, 32),
+    new THREE.MeshPhysicalMaterial({
+      color: 0x999999, // Slightly darker than the body for definition
+      roughness: 0.1,
+      metalness: 1.0,
+      reflectivity: 1.0,
+      side: THREE.DoubleSide
+    })
+  );
+  keyholeRim.position.set(0, -lockBodyHeight / 2 + 0.1, lockBodyDepth / 2 + 0.002);
+  lockBody.add(keyhole, keyholeSlot, keyholeRim, shackle);
+
+  // Tiny spark at the right hole for when the lock closes
+  const spark = new THREE.Mesh(
+    new THREE.SphereGeometry(0.02, 12, 12),
+    new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0 })
+  );
+  spark.position.set(postSpacing / 2, lockBodyHeight / 2, lockBodyDepth / 2);
+  lockBody.add(spark);
+
+  const lock = new THREE.Group();
+  lock.add(lockBody);
+  secureGroup.add(lock);
+
+  // Orbiting particles around the lock, in two rings at different angles
+  const orbitCount = 12;
+  const orbitGeometries = [
+    new THREE.IcosahedronGeometry(0.08, 0),
+    new THREE.OctahedronGeometry(0.1, 0),
+    new THREE.TetrahedronGeometry(0.12)
+  ];
+  const orbitMaterial = new THREE.MeshPhysicalMaterial({
+    color: 0x4adeb0,
+    emissive: 0x20ffb0,
+    emissiveIntensity: 0.8,
+    metalness: 0.7,
+    roughness: 0.3,
+    reflectivity: 0.8,
+    clearcoat: 0.4
+  } as THREE.MeshPhysicalMaterialParameters);
+
+  // Ambient motion: a barely perceptible pulse and sway of the lock, then the orbits.
+  // The pulse goes through a proxy because scale is read-only
+  const ambientTweens: gsap.core.Tween[] = [];
+  if (ambient) {
+    const lockScaleProxy = { x: 1, y: 1, z: 1 };
+    ambientTweens.push(
+      gsap.to(lockScaleProxy, {
+        x: 1.005, y: 1.005, z: 1.005,
+        duration: 4,
+        repeat: -1,
+        yoyo: true,
+        ease: 'sine.inOut',
+        onUpdate: () => {
+          lock.scale.set(lockScaleProxy.x, lockScaleProxy.y, lockScaleProxy.z);
+        }
+      }),
+      // Small enough not to interfere with the shackle animation
+      gsap.to(lock.rotation, {
+        y: 0.01,
+        x: 0.002,
+        duration: 12,
+        repeat: -1,
+        yoyo: true,
+        ease: 'sine.inOut'
+      })
+    );
+  }
+
+  for (let ring = 0; ring < 2; ring++) {
+    const orbitGroup = new THREE.Group();
+    orbitGroup.rotation.x = ring * Math.PI / 4;
+    secureGroup.add(orbitGroup);
+
+    for (let i = 0; i < orbitCount; i++) {
+      const geometry = orbitGeometries[objectRandom.int(0, orbitGeometries.length)];
+      const material = orbitMaterial.clone();
+      const orbitParticle = new THREE.Mesh(geometry, material);
+
+      // Position in orbit, with a slight random offset and a different radius per ring
+      const angle = (i / orbitCount) * Math.PI * 2;
+      const radius = 1.6 + ring * 0.2;
+      orbitParticle.position.set(Math.cos(angle) * radius, objectRandom.centered(0.1), Math.sin(angle) * radius);
+      orbitParticle.scale.setScalar(objectRandom.range(0.8, 1.2));
+
+      // Color variation
+      const hueShift = objectRandom.centered(0.1);
+      material.color.offsetHSL(hueShift, 0, 0);
+      material.emissive.offsetHSL(hueShift, 0, 0);
+
+      orbitGroup.add(orbitParticle);
+
+      // Drawn either way, so the layout doesn't depend on whether the tweens run
+      const bob = { y: orbitParticle.position.y + objectRandom.centered(0.2), duration: objectRandom.range(1, 3) };
+      if (ambient) {
+        ambientTweens.push(gsap.to(orbitParticle.position, { ...bob, repeat: -1, yoyo: true, ease: 'sine.inOut' }));
+      }
+    }
+
+    if (ambient) {
+      ambientTweens.push(gsap.to(orbitGroup.rotation, {
+        y: Math.PI * 2,
+        duration: 10 + ring * 5, // Different speeds per ring
+        repeat: -1,
+        ease: 'none'
+      }));
+    }
+  }
+
+  // Everything allocated above, including the cloned orbit materials and the lock's edge lines
+  const resources = createResourceTracker('journey objects');
+  resources.track([dataParticles, shredParticles, orbitMaterial, ...orbitGeometries]);
+  resources.trackObject(secureGroup);
+
+  // The fragments and the lock glow through the bloom pass (when postprocessing is on)
+  markBloom(shredParticles.group);
+  markBloom(secureGroup);
+
+  // An artist-supplied lock model (public/models) replaces the procedural meshes once loaded.
+  // Its "body" node is placed like the lock body and its "shackle" node hangs from the
+  // shackle pivot, so the timeline keeps animating the same groups either way
+  let disposed = false;
+  if (lockModel) {
+    loadModel('lock').then(model => {
+      if (disposed || !model) return;
+      const modelBody = findModelPart(model, 'body');
+      const modelShackle = findModelPart(model, 'shackle');
+      if (!modelBody || !modelShackle) {
+        console.warn('Lock model needs nodes named "body" and "shackle", keeping the procedural lock');
+        return;
+      }
+
+      // Hide the procedural parts but keep the pivot and spark the timeline drives
+      lockBody.children.forEach(child => {
+        if (child !== shackle && child !== spark) child.visible = false;
+      });
+      lockBody.layers.disableAll();
+      lockShackle.visible = false;
+
+      lockBody.add(modelBody);
+      shackle.add(modelShackle);
+      markBloom(modelBody);
+      markBloom(modelShackle);
+      resources.trackObject(modelBody);
+      resources.trackObject(modelShackle);
+      onChange?.();
+    });
+  }
+
+  return {
+    dataGroup,
+    shredGroup,
+    secureGroup,
+    shackle,
+    spark,
+    dataParticles,
+    shredParticles,
+    lockMaterial,
+    ambientTweens,
+    resources,
+    dispose() {
+      // A lock model still loading belongs to the next set of objects
+      disposed = true;
+      ambientTweens.forEach(tween => tween.kill());
+      resources.dispose();
+      [dataGroup, shredGroup, secureGroup].forEach(group => group.removeFromParent());
+    }
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * journeyRenderWorker.ts
+ *
+ * Web Worker entry that renders the journey scene into a transferred
+ * OffscreenCanvas, keeping all per-frame Three.js work off the main thread.
+ * Started by journeyWorkerRenderer.ts; see journeyWorkerProtocol.ts for messages.
+ */
+
+import { JourneyScene, createJourneyScene } from './journeyScene';
+import { JourneyWorkerEvent, JourneyWorkerRequest } from './journeyWorkerProtocol';
+
+// The project compiles against the DOM lib, so describe the worker scope we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<JourneyWorkerRequest>) => void) | null;
+  postMessage(message: JourneyWorkerEvent): void;
+  close(): void;
+};
+
+// Frame timestamps are sent in batches to keep message traffic low
+const FRAME_BATCH_SIZE = 30;
+
+let journeyScene: JourneyScene | null = null;
+let frameTimestamps: number[] = [];
+
+const reportFrame = (timestamp: number) => {
+  // Worker and page clocks start at different times, so send epoch based timestamps
+  frameTimestamps.push(performance.timeOrigin + timestamp);
+  if (frameTimestamps.length >= FRAME_BATCH_SIZE) {
+    workerScope.postMessage({ type: 'frames', timestamps: frameTimestamps });
+    frameTimestamps = [];
+  }
+};
+
+workerScope.onmessage = ({ data }) => {
+  try {
+    switch (data.type) {
+      case 'init':
+        journeyScene = createJourneyScene(data.canvas, {
+          width: data.width,
+          height: data.height,
+          pixelRatio: data.pixelRatio,
+          progress: data.progress,
+          quality: data.quality,
+          reducedMotion: data.reducedMotion,
+          seed: data.seed,
+          onFrame: reportFrame
+        });
+        break;
+      case 'progress':
+        journeyScene?.setProgress(data.progress);
+        break;
+      case 'resize':
+        journeyScene?.resize(data.width, data.height, data.pixelRatio);
+        break;
+      case 'quality':
+        journeyScene?.setQuality(data.quality);
+        break;
+      case 'motion':
+        journeyScene?.setReducedMotion(data.reducedMotion);
+        break;
+      case 'shares':
+        journeyScene?.setShares(data.shareXs, data.lostShares);
+        break;
+      case 'pause':
+        journeyScene?.stop();
+        // Gaps while paused are not frame times
+        frameTimestamps = [];
+        break;
+      case 'resume':
+        journeyScene?.start();
+        break;
+      case 'dispose':
+        journeyScene?.dispose();
+        journeyScene = null;
+        workerScope.close();
+        break;
+    }
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,239 @@
+/**
+ * journeyScene.ts
+ *
+ * The Shrink/Shred/Secure journey without DOM or React, so it can render into
+ * an OffscreenCanvas inside a Web Worker. The objects come from the same
+ * builder DataProtectionJourney uses (journeyObjects.ts), lit by the same
+ * 'journey' light preset and driven by the same timeline:
+ * buildJourneyTimeline() with the choreography in journeyChoreography.ts and
+ * the camera rig in journeyCameras.ts. GSAP core needs no DOM, so the worker
+ * just sets the timeline's progress. getJourneySceneState() builds the scene
+ * without a canvas to describe it at any progress value.
+ */
+
+import * as THREE from 'three';
+import { SceneQuality } from './sceneEvents';
+import { QUALITY_SETTINGS, applyRenderQuality } from './renderQuality';
+import { createResourceTracker } from './resourceTracker';
+import { Random, SceneSeed, createRandom, resolveSceneSeed } from './random';
+import { getPhaseAtProgress } from './phases';
+import { addSceneLights } from './sceneLights';
+import { SceneEffects, createSceneEffects } from './sceneEffects';
+import { JourneyObjects, applyShareColors, createJourneyFog, createJourneyObjects } from './journeyObjects';
+import {
+  JourneySceneState,
+  captureCameraState,
+  captureObjectState,
+  createJourneySceneState,
+  getParticleOpacity
+} from './journeyState';
+import { JourneyTimelineStateOptions, buildJourneyTimeline, createJourneyTimeline } from './journeyTimeline';
+import { createCameraRig } from './cameraRig';
+import { JOURNEY_CAMERA_RIG, getCameraRigVariant } from './journeyCameras';
+
+export interface JourneySceneOptions {
+  width: number;
+  height: number;
+  // Device pixel ratio of the page, workers can't read it themselves
+  pixelRatio: number;
+  progress?: number;
+  quality?: SceneQuality;
+  reducedMotion?: boolean;
+  // Scene seed (see random.ts), the same one DataProtectionJourney was given
+  seed?: SceneSeed;
+  // Called after every rendered frame with a performance.now() timestamp
+  onFrame?: (timestamp: number) => void;
+}
+
+export interface JourneyScene {
+  setProgress(progress: number): void;
+  resize(width: number, height: number, pixelRatio: number): void;
+  setQuality(quality: SceneQuality): void;
+  // Stops the ambient motion, the progress-driven poses are unaffected
+  setReducedMotion(reducedMotion: boolean): void;
+  // Grey out the fragments of lost key shares, see applyShareColors()
+  setShares(shareXs: readonly number[] | null, lostShares: readonly number[]): void;
+  start(): void;
+  stop(): void;
+  dispose(): void;
+}
+
+// The stream DataProtectionJourney lays out and choreographs its scene with
+const journeyRandom = (seed?: SceneSeed): Random => createRandom(resolveSceneSeed(seed)).fork('DataProtectionJourney');
+
+// The camera DataProtectionJourney asks its scene runtime for, before the rig takes over
+const createJourneyCamera = (aspect: number) => {
+  const camera = new THREE.PerspectiveCamera(65, aspect, 0.1, 1000);
+  camera.position.set(0, 0, 5);
+  return camera;
+};
+
+const captureJourneyState = (progress: number, camera: THREE.PerspectiveCamera, objects: JourneyObjects): JourneySceneState => {
+  const lockOpacity = objects.lockMaterial.opacity;
+  return createJourneySceneState(progress, captureCameraState(camera), {
+    data: captureObjectState(objects.dataGroup, getParticleOpacity(objects.dataParticles)),
+    shred: captureObjectState(objects.shredGroup, getParticleOpacity(objects.shredParticles)),
+    lock: captureObjectState(objects.secureGroup, lockOpacity),
+    shackle: captureObjectState(objects.shackle, lockOpacity)
+  });
+};
+
+/**
+ * What the worker scene shows at `progress` (as passed to setProgress), computed
+ * without a canvas. The ambient motion is left out: it depends on time, not progress.
+ */
+export function getJourneySceneState(progress: number, options: JourneyTimelineStateOptions = {}): JourneySceneState {
+  const random = journeyRandom(options.seed);
+  const camera = createJourneyCamera(1);
+  const objects = createJourneyObjects({ random, ambient: false, lockModel: false });
+
+  const tl = createJourneyTimeline();
+  buildJourneyTimeline(tl, { ...objects, camera }, {
+    isMobile: options.isMobile ?? false,
+    random,
+    cameraRig: createCameraRig(JOURNEY_CAMERA_RIG)
+  });
+  tl.progress(progress);
+  const state = captureJourneyState(progress, camera, objects);
+
+  tl.kill();
+  objects.dispose();
+  return state;
+}
+
+/**
+ * Build the journey scene on a canvas (regular or offscreen) and start rendering
+ */
+export function createJourneyScene(canvas: HTMLCanvasElement | OffscreenCanvas, options: JourneySceneOptions): JourneyScene {
+  let { pixelRatio } = options;
+  let progress = options.progress ?? 0;
+  let quality: SceneQuality = options.quality ?? 'high';
+  let reducedMotion = options.reducedMotion ?? false;
+  const random = journeyRandom(options.seed);
+
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true, powerPreference: 'high-performance' });
+  renderer.setClearColor(0x000000, 0);
+  // Offscreen canvases have no style, so never let three touch it
+  renderer.setSize(options.width, options.height, false);
+
+  const scene = new THREE.Scene();
+  scene.fog = createJourneyFog();
+  addSceneLights(scene, 'journey');
+
+  // Released by dispose() after the objects: the key light's shadow map, then the renderer
+  const resources = createResourceTracker('journey worker scene');
+  resources.trackObject(scene);
+  resources.track(renderer);
+
+  const camera = createJourneyCamera(options.width / options.height);
+  const objects = createJourneyObjects({ random });
+  const { dataGroup, shredGroup, secureGroup, dataParticles, shredParticles, ambientTweens } = objects;
+  scene.add(dataGroup, shredGroup, secureGroup);
+  ambientTweens.forEach(tween => tween.paused(reducedMotion));
+
+  // Bloom and vignette while the quality tier allows postprocessing, following the phase
+  let effects: SceneEffects | null = null;
+  const syncEffects = () => {
+    if (QUALITY_SETTINGS[quality].postprocessing) {
+      effects ??= createSceneEffects(renderer, scene, camera, {});
+      effects.setPhase(getPhaseAtProgress(progress).id);
+    } else if (effects) {
+      effects.dispose();
+      effects = null;
+    }
+  };
+
+  // The camera follows the rig through the timeline, small screens use its mobile variant
+  const cameraRig = createCameraRig(JOURNEY_CAMERA_RIG);
+  let isMobile = getCameraRigVariant(options.width) === 'mobile';
+  let tl = createJourneyTimeline();
+  const buildTimeline = () => {
+    buildJourneyTimeline(tl, { ...objects, camera }, { isMobile, random, cameraRig });
+    tl.progress(progress);
+  };
+
+  let lastTime: number | null = null;
+  const renderFrame = (time: number) => {
+    const delta = lastTime === null ? 0 : (time - lastTime) / 1000;
+    lastTime = time;
+    // Ambient rotation at the main thread's per-frame rates, scaled to 60fps frames
+    const frames = reducedMotion ? 0 : delta * 60;
+
+    dataGroup.rotation.y += 0.002 * frames;
+    dataGroup.rotation.x += 0.0005 * frames;
+    if (shredGroup.visible) {
+      shredGroup.rotation.y += 0.003 * frames;
+      shredGroup.rotation.z += 0.0007 * frames;
+    }
+    secureGroup.rotation.y += 0.001 * frames;
+    secureGroup.rotation.z += 0.0003 * frames;
+
+    if (effects) {
+      effects.render(delta);
+    } else {
+      renderer.render(scene, camera);
+    }
+    options.onFrame?.(time);
+  };
+
+  const setQuality = (next: SceneQuality) => {
+    quality = next;
+    renderer.setPixelRatio(Math.min(pixelRatio, QUALITY_SETTINGS[quality].pixelRatio));
+    applyRenderQuality(renderer, scene, quality, {
+      particles: [...dataParticles.meshes, ...shredParticles.meshes],
+      skipPixelRatio: true
+    });
+    syncEffects();
+  };
+
+  setQuality(quality);
+  buildTimeline();
+  renderer.setAnimationLoop(renderFrame);
+
+  return {
+    setProgress(next) {
+      progress = next;
+      tl.progress(progress);
+      effects?.setPhase(getPhaseAtProgress(progress).id);
+    },
+    resize(width, height, nextPixelRatio) {
+      pixelRatio = nextPixelRatio;
+      renderer.setPixelRatio(Math.min(pixelRatio, QUALITY_SETTINGS[quality].pixelRatio));
+      renderer.setSize(width, height, false);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+
+      // Crossing the breakpoint rebuilds the timeline with the other variant, from the start pose
+      const nextIsMobile = getCameraRigVariant(width) === 'mobile';
+      if (nextIsMobile !== isMobile) {
+        isMobile = nextIsMobile;
+        tl.progress(0).kill();
+        tl = createJourneyTimeline();
+        buildTimeline();
+      }
+    },
+    setQuality,
+    setReducedMotion(next) {
+      reducedMotion = next;
+      ambientTweens.forEach(tween => tween.paused(reducedMotion));
+    },
+    setShares(shareXs, lostShares) {
+      applyShareColors(shredParticles, shareXs, lostShares);
+    },
+    start() {
+      lastTime = null;
+      renderer.setAnimationLoop(renderFrame);
+    },
+    stop() {
+      renderer.setAnimationLoop(null);
+    },
+    dispose() {
+      renderer.setAnimationLoop(null);
+      tl.kill();
+      effects?.dispose();
+      // The objects' geometries, materials and textures, then the shadow map and finally the renderer
+      objects.dispose();
+      resources.dispose();
+    }
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PHASES, PHASE_BY_ID, getPhaseRestProgress } from './phases';
+import { JourneySceneState, isJourneyObjectVisible } from './journeyState';
+import { JOURNEY_MOTIONS, getJourneyTimelineState, sampleJourneyTimeline } from './journeyTimeline';
+import { getJourneySceneState } from './journeyScene';
+import { JOURNEY_CHOREOGRAPHY } from './journeyChoreography';
+import { validateTimelineSpec } from './timelineSpec';
+import { createCameraRig } from './cameraRig';
+import { JOURNEY_CAMERA_RIG } from './journeyCameras';
+
+const SEED = 'journey-tests';
+
+// Journey scenes that can be evaluated without a browser
+const SCENES: [string, (progress: number) => JourneySceneState][] = [
+  ['main-thread timeline', progress => getJourneyTimelineState(progress, { seed: SEED })],
+  ['worker scene', progress => getJourneySceneState(progress, { seed: SEED })]
+];
+
+const assertClose = (actual: number, expected: number, message?: string) => {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${message ?? 'value'}: expected ${expected}, got ${actual}`);
+};
+
+describe('journey choreography', () => {
+  it('has no validation issues', () => {
+    assert.deepEqual(validateTimelineSpec(JOURNEY_CHOREOGRAPHY, JOURNEY_MOTIONS), []);
+  });
+});
+
+SCENES.forEach(([name, getState]) => {
+  describe(`${name} snapshots`, () => {
+    it('hides the shred group before the shred phase', () => {
+      [0, 0.1, 0.25, 0.39, PHASE_BY_ID.shred.start - 0.001].forEach(progress => {
+        assert.equal(isJourneyObjectVisible(getState(progress), 'shred'), false, `shred visible at ${progress}`);
+      });
+      assert.equal(isJourneyObjectVisible(getState(0.5), 'shred'), true, 'shred hidden at 0.5');
+    });
+
+    it('closes the shackle by 80%', () => {
+      [0.8, 0.9, PHASE_BY_ID.secure.end].forEach(progress => {
+        const { shackle } = getState(progress).objects;
+        assertClose(shackle.rotation[0], 0, `shackle rotation.x at ${progress}`);
+        assertClose(shackle.position[1], 0, `shackle position.y at ${progress}`);
+      });
+    });
+
+    it('is still closing the shackle early in the secure phase', () => {
+      const open = getState(PHASE_BY_ID.secure.start).objects.shackle;
+      const { shackle } = getState(0.72).objects;
+      assert.ok(shackle.rotation[0] > open.rotation[0] && shackle.rotation[0] < 0, `shackle rotation.x ${shackle.rotation[0]}`);
+      assert.ok(shackle.position[1] > 0 && shackle.position[1] < open.position[1], `shackle position.y ${shackle.position[1]}`);
+    });
+
+    it('is deterministic', () => {
+      assert.deepEqual(getState(0.55), getState(0.55));
+    });
+  });
+});
+
+describe('worker scene', () => {
+  it('follows the main-thread camera and visibility', () => {
+    [0, 0.2, 0.4, 0.55, 0.7, 0.85, 1].forEach(progress => {
+      const worker = getJourneySceneState(progress, { seed: SEED });
+      const main = getJourneyTimelineState(progress, { seed: SEED });
+      assert.deepEqual(worker.camera, main.camera, `camera at ${progress}`);
+      (['data', 'shred', 'lock'] as const).forEach(name => {
+        assert.equal(worker.objects[name].visible, main.objects[name].visible, `${name} visibility at ${progress}`);
+        assertClose(worker.objects[name].opacity, main.objects[name].opacity, `${name} opacity at ${progress}`);
+      });
+    });
+  });
+});
+
+describe('main-thread timeline', () => {
+  it('leaves the shackle open at the start', () => {
+    const { shackle } = getJourneyTimelineState(0, { seed: SEED }).objects;
+    assert.ok(shackle.rotation[0] < 0, 'shackle rotation.x');
+    assert.ok(shackle.position[1] > 0, 'shackle position.y');
+  });
+
+  it('puts the camera on the rig at each phase boundary', () => {
+    const boundaries = [...PHASES.map(phase => phase.start), 1];
+    [false, true].forEach(isMobile => {
+      const rig = createCameraRig(JOURNEY_CAMERA_RIG);
+      rig.setVariant(isMobile ? 'mobile' : null);
+      const states = sampleJourneyTimeline(boundaries, { seed: SEED, isMobile });
+
+      states.forEach((state, index) => {
+        const expected = rig.sample(boundaries[index]);
+        state.camera.position.forEach((value, axis) => {
+          assertClose(value, expected.position[axis], `camera axis ${axis} at ${boundaries[index]} (mobile: ${isMobile})`);
+        });
+        assertClose(state.camera.fov, expected.fov, `fov at ${boundaries[index]}`);
+      });
+    });
+  });
+
+  it('starts and ends on the rig keyframes', () => {
+    const [start, end] = sampleJourneyTimeline([0, 1], { seed: SEED });
+    assert.deepEqual(start.camera, { position: [0, 0, 5], fov: 65 });
+    assert.deepEqual(end.camera, { position: [-0.1, 0.2, 3.2], fov: 65 });
+  });
+
+  it('settles on phase rest points under reduced motion', () => {
+    [0.05, 0.3, 0.45, 0.65, 0.75, 0.95].forEach(progress => {
+      const reduced = getJourneyTimelineState(progress, { seed: SEED, reducedMotion: true });
+      const rest = getJourneyTimelineState(getPhaseRestProgress(progress), { seed: SEED });
+      assert.deepEqual(reduced.objects, rest.objects, `objects at ${progress}`);
+      assert.deepEqual(reduced.camera, rest.camera, `camera at ${progress}`);
+    });
+
+    // The last phase rests on the closed lock
+    const { shackle } = getJourneyTimelineState(0.72, { seed: SEED, reducedMotion: true }).objects;
+    assertClose(shackle.rotation[0], 0, 'shackle rotation.x');
+  });
+});
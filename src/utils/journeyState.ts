@@ -0,0 +1,99 @@
+/**
+ * journeyState.ts
+ *
+ * Plain-data snapshot of what a journey scene shows at one progress value:
+ * camera pose plus transform, visibility and opacity of the data, the
+ * fragments, the lock and its shackle. Each journey scene can produce one
+ * without a browser (getJourneyTimelineState() in journeyTimeline.ts,
+ * getJourneySceneState() in journeyScene.ts), so the choreography can be
+ * checked at 55% without scrolling anything. Snapshots only hold numbers,
+ * booleans and strings, so they compare and serialize as JSON.
+ */
+
+import * as THREE from 'three';
+import { PhaseId, getPhaseAtProgress } from './phases';
+import { InstancedParticleSystem } from './instancedParticles';
+
+// The journey's main objects, named the same in every scene
+export type JourneyObjectId = 'data' | 'shred' | 'lock' | 'shackle';
+
+export const JOURNEY_OBJECT_IDS: readonly JourneyObjectId[] = ['data', 'shred', 'lock', 'shackle'];
+
+export interface JourneyObjectState {
+  // False when the object or any parent is hidden
+  visible: boolean;
+  position: THREE.Vector3Tuple;
+  // Euler angles in radians
+  rotation: THREE.Vector3Tuple;
+  scale: THREE.Vector3Tuple;
+  // 0..1, including fades applied per particle
+  opacity: number;
+}
+
+export interface JourneyCameraState {
+  position: THREE.Vector3Tuple;
+  fov: number;
+}
+
+export interface JourneySceneState {
+  // Journey progress the snapshot was taken at (0..1)
+  progress: number;
+  phase: PhaseId;
+  camera: JourneyCameraState;
+  objects: Record<JourneyObjectId, JourneyObjectState>;
+}
+
+const isShown = (object: THREE.Object3D) => {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (!node.visible) return false;
+  }
+  return true;
+};
+
+/**
+ * Snapshot of one object's local transform, its visibility and the given opacity
+ */
+export function captureObjectState(object: THREE.Object3D, opacity: number): JourneyObjectState {
+  return {
+    visible: isShown(object),
+    position: object.position.toArray(),
+    rotation: [object.rotation.x, object.rotation.y, object.rotation.z],
+    scale: object.scale.toArray(),
+    opacity
+  };
+}
+
+/**
+ * Average opacity of a particle set: the shared material's times each particle's own
+ */
+export function getParticleOpacity(system: InstancedParticleSystem): number {
+  if (system.particles.length === 0) return system.material.opacity;
+  const total = system.particles.reduce((sum, particle) => sum + particle.opacity, 0);
+  return system.material.opacity * (total / system.particles.length);
+}
+
+/**
+ * Snapshot of a camera's pose
+ */
+export function captureCameraState(camera: THREE.PerspectiveCamera): JourneyCameraState {
+  return { position: camera.position.toArray(), fov: camera.fov };
+}
+
+/**
+ * Assemble a snapshot, taking the phase from the shared phase model
+ */
+export function createJourneySceneState(
+  progress: number,
+  camera: JourneyCameraState,
+  objects: Record<JourneyObjectId, JourneyObjectState>
+): JourneySceneState {
+  return { progress, phase: getPhaseAtProgress(progress).id, camera, objects };
+}
+
+/**
+ * Whether an object can be seen in a snapshot: shown and not fully faded out
+ */
+export function isJourneyObjectVisible(state: JourneySceneState, id: JourneyObjectId): boolean {
+  const object = state.objects[id];
+  return object.visible && object.opacity > 0;
+}
@@ -0,0 +1,292 @@
+/**
+ * journeyTimeline.ts
+ *
+ * Builds the main-thread Shrink/Shred/Secure journey timeline from the
+ * choreography in journeyChoreography.ts. The timeline animates whatever
+ * objects it is given, so DataProtectionJourney builds it against the
+ * rendered scene and getJourneyTimelineState() builds the same timeline
+ * against a headless copy of the scene graph (no renderer, DOM or React), to
+ * read back what the journey shows at any progress value. The camera
+ * follows a keyframed rig (journeyCameras.ts) tweened along the timeline.
+ */
+
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { getPhaseRestProgress } from './phases';
+import { InstancedParticle, InstancedParticleSystem, createInstancedParticles } from './instancedParticles';
+import { InstanceMotion, buildTimelineFromSpec } from './timelineSpec';
+import { JOURNEY_CHOREOGRAPHY, JourneyMotion, JourneyTarget } from './journeyChoreography';
+import {
+  JourneySceneState,
+  captureCameraState,
+  captureObjectState,
+  createJourneySceneState,
+  getParticleOpacity
+} from './journeyState';
+import { Random, SceneSeed, createRandom, resolveSceneSeed } from './random';
+import { CameraRig, createCameraRig } from './cameraRig';
+import { JOURNEY_CAMERA_RIG } from './journeyCameras';
+
+export interface JourneyTimelineTargets {
+  camera: THREE.PerspectiveCamera | null;
+  dataGroup: THREE.Group;
+  shredGroup: THREE.Group;
+  secureGroup: THREE.Group;
+  // Pivot the shackle opens and closes around
+  shackle: THREE.Object3D | null;
+  // Flash at the right shackle hole as the lock closes
+  spark: THREE.Mesh | null;
+  dataParticles: InstancedParticleSystem | null;
+  shredParticles: InstancedParticleSystem | null;
+}
+
+export interface JourneyTimelineOptions {
+  // Small screens use the mobile variants of the choreography and the camera rig
+  isMobile: boolean;
+  // Explosion vectors, spins and fade delays are drawn from a fork of this stream
+  random: Random;
+  // Rig the camera follows, created from JOURNEY_CAMERA_RIG (journeyCameras.ts)
+  cameraRig: CameraRig;
+}
+
+/**
+ * Empty timeline for the journey, progressed by a journey driver rather than by time
+ */
+export function createJourneyTimeline(): gsap.core.Timeline {
+  return gsap.timeline({
+    paused: true, // Start paused, will be controlled by the driver
+    smoothChildTiming: true // Ensures smooth animation when scrubbing
+  });
+}
+
+// Where a particle started before any motion moved it; kept across rebuilds so they start clean
+const rememberInitialState = (particle: InstancedParticle) => {
+  if (particle.userData.initialPosition) return;
+  particle.userData.initialPosition = particle.position.clone();
+  particle.userData.initialRotation = particle.rotation.clone();
+  particle.userData.initialScale = particle.scale.clone();
+};
+
+// A spiral for the fragments to follow into the lock
+const SPIRAL_RADIUS_START = 3.5;
+const SPIRAL_RADIUS_END = 0.05; // Close to the lock
+
+const spiralPoint = (particle: InstancedParticle, t: number, total: number, target: THREE.Vector3) => {
+  const spiralAngle = (particle.index / total) * Math.PI * 12 + t * Math.PI * 6;
+  const radius = SPIRAL_RADIUS_START * (1 - t) + SPIRAL_RADIUS_END * t;
+  // Particles rise, then fall into the lock
+  const y = 0.3 * Math.sin(t * Math.PI) + (1 - t) * (particle.userData.spiralJitter as number);
+  return target.set(Math.cos(spiralAngle) * radius, y, Math.sin(spiralAngle) * radius);
+};
+const spiralStart = new THREE.Vector3();
+
+// Per-particle motions named by the choreography's particle beats
+export const JOURNEY_MOTIONS: Record<JourneyMotion, InstanceMotion> = {
+  // Shrink to a tenth of the size while moving to the center
+  'shrink-to-center': {
+    channels: ['position', 'scale'],
+    prepare: rememberInitialState,
+    update: (particle, t) => {
+      particle.scale.copy(particle.userData.initialScale as THREE.Vector3).multiplyScalar(1 - 0.9 * t);
+      particle.position.copy(particle.userData.initialPosition as THREE.Vector3).multiplyScalar(1 - t);
+    }
+  },
+  // Burst outward to a random point
+  explode: {
+    channels: ['position'],
+    prepare: (particle, random) => {
+      rememberInitialState(particle);
+      particle.userData.explodeTarget = new THREE.Vector3(random.centered(6), random.centered(6), random.centered(6));
+    },
+    update: (particle, t) => {
+      particle.position.lerpVectors(
+        particle.userData.initialPosition as THREE.Vector3,
+        particle.userData.explodeTarget as THREE.Vector3,
+        t
+      );
+    }
+  },
+  // Spin to a random orientation, up to two turns per axis
+  tumble: {
+    channels: ['rotation'],
+    prepare: (particle, random) => {
+      rememberInitialState(particle);
+      particle.userData.spinTarget = new THREE.Euler(
+        random.range(0, Math.PI * 4),
+        random.range(0, Math.PI * 4),
+        random.range(0, Math.PI * 4)
+      );
+    },
+    update: (particle, t) => {
+      const from = particle.userData.initialRotation as THREE.Euler;
+      const to = particle.userData.spinTarget as THREE.Euler;
+      particle.rotation.set(
+        from.x + (to.x - from.x) * t,
+        from.y + (to.y - from.y) * t,
+        from.z + (to.z - from.z) * t
+      );
+    }
+  },
+  // Follow the spiral from wherever the explosion left each particle, shrinking to 2% of its size
+  'spiral-in': {
+    channels: ['position', 'scale'],
+    prepare: (particle, random) => {
+      rememberInitialState(particle);
+      particle.userData.spiralJitter = random.centered(0.2);
+    },
+    update: (particle, t, total) => {
+      spiralPoint(particle, 0, total, spiralStart);
+      spiralPoint(particle, t, total, particle.position);
+      // The offset from the spiral's start fades out so the path begins at the exploded position
+      const exploded = (particle.userData.explodeTarget as THREE.Vector3 | undefined) ?? spiralStart;
+      particle.position.addScaledVector(spiralStart.subVectors(exploded, spiralStart), 1 - t);
+      particle.scale.copy(particle.userData.initialScale as THREE.Vector3).multiplyScalar(1 - 0.98 * t);
+    }
+  },
+  // Glow brighter while converging; the bloom pass (sceneEffects.ts) turns this into light
+  'converge-glow': {
+    channels: ['emissive'],
+    update: (particle, t) => {
+      particle.emissiveIntensity = 1 + t;
+    }
+  },
+  // Keep spinning from the tumble's end, three more turns per axis
+  'converge-spin': {
+    channels: ['rotation'],
+    prepare: rememberInitialState,
+    update: (particle, t) => {
+      const from = (particle.userData.spinTarget as THREE.Euler | undefined) ?? (particle.userData.initialRotation as THREE.Euler);
+      particle.rotation.set(
+        from.x + Math.PI * 6 * t,
+        from.y + Math.PI * 6 * t,
+        from.z + Math.PI * 6 * t
+      );
+    }
+  },
+  'fade-out': {
+    channels: ['opacity'],
+    update: (particle, t) => {
+      particle.opacity = 1 - t;
+    }
+  }
+};
+
+/**
+ * Add the journey's choreography for `targets` to `tl`
+ */
+export function buildJourneyTimeline(
+  tl: gsap.core.Timeline,
+  targets: JourneyTimelineTargets,
+  options: JourneyTimelineOptions
+): void {
+  const { camera, shackle, spark, dataParticles, shredParticles } = targets;
+  const bindings: Record<JourneyTarget, object | null> = {
+    dataGroup: targets.dataGroup,
+    dataParticles,
+    'dataParticles.material': dataParticles?.material ?? null,
+    shredGroup: targets.shredGroup,
+    shredParticles,
+    'shredParticles.material': shredParticles?.material ?? null,
+    'secureGroup.rotation': targets.secureGroup.rotation,
+    'shackle.position': shackle?.position ?? null,
+    'shackle.rotation': shackle?.rotation ?? null,
+    'shackle.scale': shackle?.scale ?? null,
+    'spark.material': spark?.material ?? null,
+    'spark.scale': spark?.scale ?? null
+  };
+
+  buildTimelineFromSpec(tl, JOURNEY_CHOREOGRAPHY, bindings, {
+    motions: JOURNEY_MOTIONS,
+    // Explosion vectors, spins and fade delays repeat exactly for a given seed
+    random: options.random.fork('timeline'),
+    variant: options.isMobile ? 'mobile' : undefined
+  });
+
+  // The rig's progress runs with the timeline's, so scrubbing, reduced motion and resets move the camera too
+  if (camera) {
+    const { cameraRig } = options;
+    cameraRig.setVariant(options.isMobile ? 'mobile' : null);
+    tl.fromTo(cameraRig.bindCamera(camera), { progress: 0 }, { progress: 1, duration: 1, ease: 'none' }, 0);
+  }
+}
+
+export interface JourneyTimelineStateOptions {
+  isMobile?: boolean;
+  // The component moves its timeline between phase rest points under reduced motion
+  reducedMotion?: boolean;
+  seed?: SceneSeed;
+}
+
+// Particle counts of the rendered journey; staggers and fade delays depend on them
+export const JOURNEY_PARTICLE_COUNTS = { data: 60, shred: 1200 } as const;
+
+/**
+ * Journey snapshots at each progress value, read from the real timeline built
+ * against a headless copy of the scene graph (works under Node)
+ */
+export function sampleJourneyTimeline(
+  progressValues: readonly number[],
+  options: JourneyTimelineStateOptions = {}
+): JourneySceneState[] {
+  const isMobile = options.isMobile ?? false;
+  // The stream DataProtectionJourney builds its timeline from
+  const random = createRandom(resolveSceneSeed(options.seed)).fork('DataProtectionJourney');
+
+  const camera = new THREE.PerspectiveCamera(65, 1, 0.1, 1000);
+  const cameraRig = createCameraRig(JOURNEY_CAMERA_RIG);
+
+  // Only what the timeline animates: groups, particle sets, the lock body with its shackle pivot and spark
+  const particleGeometry = new THREE.BoxGeometry(0.2, 0.2, 0.2);
+  const dataParticles = createInstancedParticles({
+    geometries: [particleGeometry],
+    material: new THREE.MeshStandardMaterial(),
+    count: JOURNEY_PARTICLE_COUNTS.data
+  });
+  const shredParticles = createInstancedParticles({
+    geometries: [particleGeometry],
+    material: new THREE.MeshStandardMaterial({ transparent: true }),
+    count: JOURNEY_PARTICLE_COUNTS.shred
+  });
+  const dataGroup = new THREE.Group().add(dataParticles.group);
+  const shredGroup = new THREE.Group().add(shredParticles.group);
+  shredGroup.visible = false;
+
+  const lockBody = new THREE.Mesh(new THREE.BoxGeometry(0.62, 0.48, 0.28), new THREE.MeshPhysicalMaterial());
+  const shackle = new THREE.Group();
+  const spark = new THREE.Mesh(new THREE.SphereGeometry(0.02), new THREE.MeshBasicMaterial({ transparent: true, opacity: 0 }));
+  lockBody.add(shackle, spark);
+  const secureGroup = new THREE.Group().add(new THREE.Group().add(lockBody));
+
+  const tl = createJourneyTimeline();
+  buildJourneyTimeline(tl, {
+    camera,
+    dataGroup,
+    shredGroup,
+    secureGroup,
+    shackle,
+    spark,
+    dataParticles,
+    shredParticles
+  }, { isMobile, random, cameraRig });
+
+  const lockOpacity = () => (lockBody.material as THREE.Material).opacity;
+  const states = progressValues.map(progress => {
+    tl.progress(options.reducedMotion ? getPhaseRestProgress(progress) : progress);
+    return createJourneySceneState(progress, captureCameraState(camera), {
+      data: captureObjectState(dataGroup, getParticleOpacity(dataParticles)),
+      shred: captureObjectState(shredGroup, getParticleOpacity(shredParticles)),
+      lock: captureObjectState(secureGroup, lockOpacity()),
+      shackle: captureObjectState(shackle, lockOpacity())
+    });
+  });
+
+  tl.kill();
+  return states;
+}
+
+/**
+ * Journey snapshot at one progress value, see sampleJourneyTimeline()
+ */
+export function getJourneyTimelineState(progress: number, options: JourneyTimelineStateOptions = {}): JourneySceneState {
+  return sampleJourneyTimeline([progress], options)[0];
+}
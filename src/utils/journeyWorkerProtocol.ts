@@ -0,0 +1,39 @@
+/**
+ * journeyWorkerProtocol.ts
+ *
+ * Messages exchanged between the page and the journey render worker.
+ * Kept in its own module so both sides share the types without the page
+ * bundle pulling in the worker's Three.js scene.
+ */
+
+import { SceneQuality } from './sceneEvents';
+
+// Page -> worker
+export type JourneyWorkerRequest =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      width: number;
+      height: number;
+      pixelRatio: number;
+      progress: number;
+      quality: SceneQuality;
+      reducedMotion: boolean;
+      // Resolved on the page, workers can't see its URL
+      seed: string;
+    }
+  | { type: 'progress'; progress: number }
+  | { type: 'resize'; width: number; height: number; pixelRatio: number }
+  | { type: 'quality'; quality: SceneQuality }
+  | { type: 'motion'; reducedMotion: boolean }
+  // Key share x values the fragments are assigned to in turn (null for none), and the lost ones
+  | { type: 'shares'; shareXs: number[] | null; lostShares: number[] }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'dispose' };
+
+// Worker -> page
+export type JourneyWorkerEvent =
+  // Frame timestamps since the epoch (performance.timeOrigin + now), batched
+  | { type: 'frames'; timestamps: number[] }
+  | { type: 'error'; message: string };
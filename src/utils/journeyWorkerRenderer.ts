@@ -0,0 +1,149 @@
+/**
+ * journeyWorkerRenderer.ts
+ *
+ * Page side of the worker render mode: creates a canvas inside a host element,
+ * hands it to journeyRenderWorker.ts with transferControlToOffscreen and
+ * forwards progress, size, quality, share and playback changes as messages. The
+ * worker is paused while the host is scrolled out of view or the tab is hidden.
+ * Returns null where OffscreenCanvas rendering isn't supported so callers
+ * can stay on the main-thread renderer.
+ */
+
+import { SceneQuality } from './sceneEvents';
+import { getQualityGovernor } from './renderQuality';
+import { JourneyWorkerEvent, JourneyWorkerRequest } from './journeyWorkerProtocol';
+import { observeSceneVisibility } from './sceneVisibility';
+import { SceneSeed, resolveSceneSeed } from './random';
+
+export interface JourneyWorkerRenderer {
+  // The canvas the worker draws into, e.g. for pointer handling
+  canvas: HTMLCanvasElement;
+  setProgress(progress: number): void;
+  setQuality(quality: SceneQuality): void;
+  setReducedMotion(reducedMotion: boolean): void;
+  // Grey out the fragments of lost key shares, see applyShareColors()
+  setShares(shareXs: number[] | null, lostShares: number[]): void;
+  pause(): void;
+  resume(): void;
+  dispose(): void;
+}
+
+export interface JourneyWorkerRendererOptions {
+  progress?: number;
+  quality?: SceneQuality;
+  reducedMotion?: boolean;
+  seed?: SceneSeed;
+  // The worker failed after starting; callers usually switch back to the main thread
+  onError?: (message: string) => void;
+}
+
+/**
+ * Whether this browser can render WebGL from a worker
+ */
+export function isOffscreenRenderingSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Start the journey render worker inside `host`, or return null when unsupported
+ */
+export function createJourneyWorkerRenderer(
+  host: HTMLElement,
+  options: JourneyWorkerRendererOptions = {}
+): JourneyWorkerRenderer | null {
+  if (!isOffscreenRenderingSupported()) return null;
+
+  // A fresh canvas every time: a canvas can only be transferred once
+  const canvas = document.createElement('canvas');
+  canvas.style.display = 'block';
+  canvas.style.width = '100%';
+  canvas.style.height = '100%';
+  host.appendChild(canvas);
+
+  let worker: Worker;
+  let offscreen: OffscreenCanvas;
+  try {
+    offscreen = canvas.transferControlToOffscreen();
+    worker = new Worker(new URL('./journeyRenderWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Worker rendering unavailable, using the main thread:', error);
+    canvas.remove();
+    return null;
+  }
+
+  const post = (message: JourneyWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  const governor = getQualityGovernor();
+
+  worker.onmessage = ({ data }: MessageEvent<JourneyWorkerEvent>) => {
+    if (data.type === 'frames') {
+      // Convert the worker's epoch timestamps to this page's clock
+      data.timestamps.forEach(timestamp => governor.recordFrame(timestamp - performance.timeOrigin));
+    } else if (data.type === 'error') {
+      options.onError?.(data.message);
+    }
+  };
+  worker.onerror = event => {
+    event.preventDefault();
+    options.onError?.(event.message);
+  };
+
+  post({
+    type: 'init',
+    canvas: offscreen,
+    width: Math.max(host.clientWidth, 1),
+    height: Math.max(host.clientHeight, 1),
+    pixelRatio: window.devicePixelRatio,
+    progress: options.progress ?? 0,
+    quality: options.quality ?? governor.getQuality(),
+    reducedMotion: options.reducedMotion ?? false,
+    seed: String(resolveSceneSeed(options.seed))
+  }, [offscreen]);
+
+  const resizeObserver = new ResizeObserver(() => {
+    if (!host.clientWidth || !host.clientHeight) return;
+    post({ type: 'resize', width: host.clientWidth, height: host.clientHeight, pixelRatio: window.devicePixelRatio });
+  });
+  resizeObserver.observe(host);
+
+  // The worker renders only when it isn't paused by the page and someone can see it
+  let paused = false;
+  let running = true;
+  const syncPlayback = () => {
+    const shouldRun = !paused && visibility.isVisible();
+    if (shouldRun === running) return;
+    running = shouldRun;
+    post({ type: running ? 'resume' : 'pause' });
+  };
+  const visibility = observeSceneVisibility(host, syncPlayback);
+  // The worker starts rendering right away, which a background tab doesn't need
+  syncPlayback();
+
+  return {
+    canvas,
+    setProgress: progress => post({ type: 'progress', progress }),
+    setQuality: quality => post({ type: 'quality', quality }),
+    setReducedMotion: reducedMotion => post({ type: 'motion', reducedMotion }),
+    setShares: (shareXs, lostShares) => post({ type: 'shares', shareXs, lostShares }),
+    pause() {
+      paused = true;
+      syncPlayback();
+    },
+    resume() {
+      paused = false;
+      syncPlayback();
+    },
+    dispose() {
+      resizeObserver.disconnect();
+      visibility.disconnect();
+      post({ type: 'dispose' });
+      // Give the worker a moment to release its GPU resources before forcing it down
+      setTimeout(() => worker.terminate(), 1000);
+      canvas.remove();
+    }
+  };
+}
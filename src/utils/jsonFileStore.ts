@@ -0,0 +1,71 @@
+/**
+ * jsonFileStore.ts
+ *
+ * Minimal JSON file persistence for server code (route handlers).
+ * Writes go through a per-file queue and are committed with an atomic
+ * rename, so concurrent requests never interleave or leave a torn file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonFile<T> {
+  readonly filePath: string;
+  // Current contents, or the fallback value when the file doesn't exist yet
+  read(): Promise<T>;
+  // Read-modify-write under the file's lock, returns whatever the updater returns
+  update<R>(updater: (current: T) => Promise<{ next: T; result: R }> | { next: T; result: R }): Promise<R>;
+}
+
+// Pending write chain for each file path, shared across every store in this process
+const fileQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = fileQueues.get(filePath) ?? Promise.resolve();
+  // Run after the previous task whether it succeeded or not
+  const run = previous.then(task, task);
+  fileQueues.set(filePath, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Open a JSON file holding a value of type T, created lazily on first write
+ */
+export function openJsonFile<T>(filePath: string, fallback: () => T): JsonFile<T> {
+  const read = async (): Promise<T> => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return fallback();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (value: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  };
+
+  return {
+    filePath,
+    read: () => enqueue(filePath, read),
+    update: updater => enqueue(filePath, async () => {
+      const { next, result } = await updater(await read());
+      await write(next);
+      return result;
+    })
+  };
+}
+
+/**
+ * Resolve a store file path, relative paths are taken from the project root
+ */
+export function resolveDataPath(configured: string | undefined, defaultName: string): string {
+  const target = configured || path.join('data', defaultName);
+  return path.isAbsolute(target) ? target : path.join(process.cwd(), target);
+}
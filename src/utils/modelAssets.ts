@@ -0,0 +1,123 @@
+/**
+ * modelAssets.ts
+ *
+ * glTF/GLB models that artists can ship from public/models without code
+ * changes. public/models/manifest.json maps model ids to files, e.g.
+ *
+ *   { "lock": "/models/lock.glb", "industry-legal": "/models/industries/legal.glb" }
+ *
+ * Scenes ask for a model by id and keep their procedural geometry when the id
+ * isn't listed or the file fails to load. Draco and meshopt compressed files
+ * are decoded (the Draco decoders are served from public/draco), every file
+ * is fetched once per page, and preloadModels() adds preload hints for
+ * models a page is about to need.
+ *
+ * Copies returned by loadModel() share geometries and materials. A scene's
+ * resource tracker may still dispose them: three uploads them again the next
+ * time another copy is drawn.
+ */
+
+import * as THREE from 'three';
+import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { IndustryType } from './industries';
+
+// Models the scenes look for
+export type ModelId = 'lock' | `industry-${IndustryType}`;
+
+export type ModelManifest = Partial<Record<ModelId, string>>;
+
+const MANIFEST_URL = '/models/manifest.json';
+// glTF decoder build copied from three/examples/jsm/libs/draco/gltf, served with the site
+const DRACO_DECODER_PATH = '/draco/';
+
+let manifestPromise: Promise<ModelManifest> | null = null;
+let loader: GLTFLoader | null = null;
+const gltfCache = new Map<string, Promise<GLTF | null>>();
+
+const getLoader = () => {
+  if (!loader) {
+    const dracoLoader = new DRACOLoader();
+    dracoLoader.setDecoderPath(DRACO_DECODER_PATH);
+    loader = new GLTFLoader();
+    loader.setDRACOLoader(dracoLoader);
+    loader.setMeshoptDecoder(MeshoptDecoder);
+  }
+  return loader;
+};
+
+/**
+ * Models listed in public/models/manifest.json (empty when there is none)
+ */
+export function loadModelManifest(): Promise<ModelManifest> {
+  if (!manifestPromise) {
+    manifestPromise = fetch(MANIFEST_URL)
+      .then(response => (response.ok ? response.json() : {}))
+      .catch(error => {
+        console.warn('Model manifest unavailable, using procedural models:', error);
+        return {};
+      });
+  }
+  return manifestPromise;
+}
+
+const loadGltf = (url: string) => {
+  let gltf = gltfCache.get(url);
+  if (!gltf) {
+    gltf = getLoader()
+      .loadAsync(url)
+      .catch(error => {
+        console.warn(`Failed to load model "${url}", keeping the procedural version:`, error);
+        return null;
+      });
+    gltfCache.set(url, gltf);
+  }
+  return gltf;
+};
+
+/**
+ * A copy of the model's scene, or null when the scene should keep its procedural geometry
+ */
+export async function loadModel(id: ModelId): Promise<THREE.Group | null> {
+  // Pages and their workers load from the site, the server has nothing to fetch from
+  if (typeof location === 'undefined') return null;
+
+  const url = (await loadModelManifest())[id];
+  if (!url) return null;
+
+  const gltf = await loadGltf(url);
+  // Each caller gets its own node tree so it can move and hide parts freely
+  return gltf ? gltf.scene.clone(true) : null;
+}
+
+/**
+ * Start fetching models before a scene asks for them
+ */
+export function preloadModels(ids: readonly ModelId[]): void {
+  if (typeof document === 'undefined') return;
+
+  loadModelManifest().then(manifest => {
+    ids.forEach(id => {
+      const url = manifest[id];
+      if (!url) return;
+
+      if (!document.head.querySelector(`link[rel="preload"][href="${url}"]`)) {
+        const link = document.createElement('link');
+        link.rel = 'preload';
+        link.as = 'fetch';
+        link.href = url;
+        link.crossOrigin = 'anonymous';
+        document.head.appendChild(link);
+      }
+      loadGltf(url);
+    });
+  });
+}
+
+/**
+ * Named node of a model (node names are set in the modelling tool)
+ */
+export function findModelPart(model: THREE.Object3D, name: string): THREE.Object3D | null {
+  return model.getObjectByName(name) ?? null;
+}
@@ -0,0 +1,54 @@
+/**
+ * motionPreference.ts
+ *
+ * Reduced motion preference: the operating system setting
+ * (prefers-reduced-motion) unless the visitor overrides it with the toggle
+ * in the navigation. The override is remembered in localStorage.
+ */
+
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const STORAGE_KEY = 'secured2:motion-preference';
+
+const isMotionPreference = (value: unknown): value is MotionPreference =>
+  value === 'system' || value === 'reduce' || value === 'full';
+
+/**
+ * Whether the operating system asks for reduced motion
+ */
+export function systemPrefersReducedMotion(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) return false;
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+export function readStoredMotionPreference(): MotionPreference {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isMotionPreference(stored) ? stored : 'system';
+  } catch {
+    // Storage can be blocked entirely in locked-down browsers
+    return 'system';
+  }
+}
+
+export function storeMotionPreference(preference: MotionPreference): void {
+  try {
+    if (preference === 'system') {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, preference);
+    }
+  } catch {
+    // Not persisting is fine, the preference still applies to this visit
+  }
+}
+
+/**
+ * Final decision: an explicit choice wins over the system setting
+ */
+export function resolveReducedMotion(preference: MotionPreference, systemReduced: boolean): boolean {
+  if (preference === 'system') return systemReduced;
+  return preference === 'reduce';
+}
@@ -0,0 +1,119 @@
+/**
+ * phases.ts
+ *
+ * Single source of truth for the Shrink / Shred / Secure story.
+ * Every scene, the progress HUD and the page timeline read their
+ * boundaries, labels and colors from here, so retiming the journey
+ * only requires editing the PHASES table below.
+ */
+
+// Identifiers for the three stages of the QuantaMorphic® journey
+export type PhaseId = 'shrink' | 'shred' | 'secure';
+
+export interface PhaseDefinition {
+  id: PhaseId;
+  label: string;
+  // Brand color used for HUD, lights and materials
+  color: string;
+  // Tailwind text class for highlighted labels (kept literal so Tailwind picks it up)
+  textClassName: string;
+  // Normalized journey progress where this phase begins (inclusive) and ends (exclusive)
+  start: number;
+  end: number;
+  description: string;
+  // Rest of the one-line pitch that follows the label, e.g. "Shrink" + " your data to ..."
+  tagline: string;
+}
+
+// Phase table - ranges must be contiguous and cover 0..1
+export const PHASES: readonly PhaseDefinition[] = [
+  {
+    id: 'shrink',
+    label: 'Shrink',
+    color: '#3b82f6', // Blue
+    textClassName: 'text-blue-300',
+    start: 0,
+    end: 0.4,
+    description: 'Data is compressed to reduce its attack surface.',
+    tagline: 'your data to reduce attack surface'
+  },
+  {
+    id: 'shred',
+    label: 'Shred',
+    color: '#f97316', // Orange
+    textClassName: 'text-orange-300',
+    start: 0.4,
+    end: 0.7,
+    description: 'Data is shredded into quantum-resistant fragments and distributed securely.',
+    tagline: 'into quantum-resistant fragments'
+  },
+  {
+    id: 'secure',
+    label: 'Secure',
+    color: '#10b981', // Green
+    textClassName: 'text-green-300',
+    start: 0.7,
+    end: 1,
+    description: 'Fragments are secured with post-quantum cryptography against quantum & AI threats.',
+    tagline: 'against quantum & AI threats'
+  }
+];
+
+// Lookup map from phase id to phase definition
+export const PHASE_BY_ID: Readonly<Record<PhaseId, PhaseDefinition>> = PHASES.reduce(
+  (map, phase) => ({ ...map, [phase.id]: phase }),
+  {} as Record<PhaseId, PhaseDefinition>
+);
+
+// Phase colors keyed by id, for scenes that tint materials per phase
+export const PHASE_COLORS: Readonly<Record<PhaseId, string>> = PHASES.reduce(
+  (map, phase) => ({ ...map, [phase.id]: phase.color }),
+  {} as Record<PhaseId, string>
+);
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Index of the phase that contains the given journey progress (0..1)
+ */
+export function getPhaseIndex(progress: number): number {
+  const value = clamp01(progress);
+  const index = PHASES.findIndex(phase => value < phase.end);
+  return index === -1 ? PHASES.length - 1 : index;
+}
+
+/**
+ * Phase that contains the given journey progress (0..1)
+ */
+export function getPhaseAtProgress(progress: number): PhaseDefinition {
+  return PHASES[getPhaseIndex(progress)];
+}
+
+/**
+ * Local progress (0..1) through a single phase for the given journey progress.
+ * Returns 0 before the phase starts and 1 once it has ended.
+ */
+export function getPhaseProgress(progress: number, id: PhaseId): number {
+  const { start, end } = PHASE_BY_ID[id];
+  return clamp01((progress - start) / (end - start));
+}
+
+/**
+ * Absolute journey position for a point inside a phase, where
+ * `fraction` 0 is the start of the phase and 1 its end
+ */
+export function phaseTime(id: PhaseId, fraction = 0): number {
+  const { start, end } = PHASE_BY_ID[id];
+  return start + (end - start) * fraction;
+}
+
+/**
+ * Settled journey position for the phase containing `progress`, used for
+ * stepwise transitions when motion is reduced: the middle of each phase,
+ * and the very end for the last phase so the lock is shown closed
+ */
+export function getPhaseRestProgress(progress: number): number {
+  const index = getPhaseIndex(progress);
+  if (index === PHASES.length - 1) return 1;
+  return phaseTime(PHASES[index].id, 0.5);
+}
@@ -0,0 +1,229 @@
+/**
+ * proceduralTextures.ts
+ *
+ * Textures the scenes generate instead of loading from public/: a soft glow
+ * sprite, tileable value noise and a gradient ramp through the phase colors.
+ * Pixels come from pure functions (same input, same bytes), and each texture
+ * is built on first use into a DataTexture that is cached by its inputs. The
+ * ramp takes the phase palette as input, so a brand color change in phases.ts
+ * produces a new ramp without regenerating any asset by hand.
+ *
+ * Cached textures are shared between scenes. A scene's resource tracker may
+ * still dispose them: three only frees the GPU copy and uploads the texture
+ * again the next time it is drawn.
+ */
+
+import * as THREE from 'three';
+import { PHASES, PHASE_BY_ID, PHASE_COLORS, PhaseId } from './phases';
+
+export interface GlowTextureOptions {
+  // Width and height in pixels
+  size?: number;
+  // Tint of the sprite, white lets the material color show through
+  color?: THREE.ColorRepresentation;
+}
+
+export interface NoiseTextureOptions {
+  size?: number;
+  // Same seed, same noise
+  seed?: number;
+  // Noise cells across the texture; the result tiles seamlessly
+  cells?: number;
+  // Layers of detail, each at twice the frequency and half the amplitude
+  octaves?: number;
+}
+
+export interface PhaseRampOptions {
+  width?: number;
+  // Colors per phase, PHASE_COLORS by default
+  palette?: Partial<Record<PhaseId, string>>;
+}
+
+// Alpha falloff of the glow sprite: [distance from the center (0..1), alpha]
+const GLOW_STOPS: [number, number][] = [
+  [0, 1],
+  [0.3, 0.8],
+  [0.7, 0.3],
+  [1, 0]
+];
+
+const cache = new Map<string, THREE.DataTexture>();
+
+const cached = (key: string, create: () => THREE.DataTexture) => {
+  let texture = cache.get(key);
+  if (!texture) {
+    texture = create();
+    cache.set(key, texture);
+  }
+  return texture;
+};
+
+const toByte = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255);
+
+const createDataTexture = (pixels: Uint8Array, width: number, height: number, name: string) => {
+  const texture = new THREE.DataTexture(pixels, width, height, THREE.RGBAFormat);
+  texture.name = name;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+/**
+ * RGBA pixels of a radial glow sprite, opaque in the center and transparent at the edge
+ */
+export function generateGlowPixels(size: number, color: THREE.ColorRepresentation = 0xffffff): Uint8Array {
+  const rgb = new THREE.Color(color).getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+  const pixels = new Uint8Array(size * size * 4);
+  const center = (size - 1) / 2;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.min(Math.hypot(x - center, y - center) / (size / 2), 1);
+      const next = GLOW_STOPS.findIndex(([stop]) => stop >= distance);
+      const [fromStop, fromAlpha] = GLOW_STOPS[Math.max(next - 1, 0)];
+      const [toStop, toAlpha] = GLOW_STOPS[next];
+      const t = toStop === fromStop ? 0 : (distance - fromStop) / (toStop - fromStop);
+
+      const i = (y * size + x) * 4;
+      pixels[i] = toByte(rgb.r);
+      pixels[i + 1] = toByte(rgb.g);
+      pixels[i + 2] = toByte(rgb.b);
+      pixels[i + 3] = toByte(fromAlpha + (toAlpha - fromAlpha) * t);
+    }
+  }
+  return pixels;
+}
+
+// Deterministic lattice value in 0..1 for integer coordinates
+const latticeValue = (x: number, y: number, seed: number) => {
+  let hash = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(seed, 2147483647);
+  hash = Math.imul(hash ^ (hash >>> 13), 1274126177);
+  return ((hash ^ (hash >>> 16)) >>> 0) / 4294967295;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Grayscale pixels (RGB equal, alpha opaque) of tileable fractal value noise
+ */
+export function generateNoisePixels(size: number, seed = 1, cells = 8, octaves = 4): Uint8Array {
+  const pixels = new Uint8Array(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let value = 0;
+      let amplitude = 0.5;
+      let total = 0;
+
+      for (let octave = 0; octave < octaves; octave++) {
+        // Wrapping the lattice at `period` is what makes the texture tile
+        const period = cells << octave;
+        const u = (x / size) * period;
+        const v = (y / size) * period;
+        const x0 = Math.floor(u);
+        const y0 = Math.floor(v);
+        const tx = smoothstep(u - x0);
+        const ty = smoothstep(v - y0);
+        const x1 = (x0 + 1) % period;
+        const y1 = (y0 + 1) % period;
+        const octaveSeed = seed + octave * 101;
+
+        const top = latticeValue(x0, y0, octaveSeed) + (latticeValue(x1, y0, octaveSeed) - latticeValue(x0, y0, octaveSeed)) * tx;
+        const bottom = latticeValue(x0, y1, octaveSeed) + (latticeValue(x1, y1, octaveSeed) - latticeValue(x0, y1, octaveSeed)) * tx;
+        value += (top + (bottom - top) * ty) * amplitude;
+        total += amplitude;
+        amplitude /= 2;
+      }
+
+      const i = (y * size + x) * 4;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = toByte(value / total);
+      pixels[i + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * RGBA pixels (one row) of a ramp along the journey: each phase's color sits at
+ * the middle of its progress range, with smooth blends in between
+ */
+export function generatePhaseRampPixels(width: number, palette: Record<PhaseId, string>): Uint8Array {
+  const stops = PHASES.map(({ id }) => ({
+    at: (PHASE_BY_ID[id].start + PHASE_BY_ID[id].end) / 2,
+    color: new THREE.Color(palette[id])
+  }));
+  const pixels = new Uint8Array(width * 4);
+  const color = new THREE.Color();
+  const rgb = { r: 0, g: 0, b: 0 };
+
+  for (let x = 0; x < width; x++) {
+    const progress = width === 1 ? 0 : x / (width - 1);
+    const next = stops.findIndex(stop => stop.at >= progress);
+    if (next === -1) {
+      color.copy(stops[stops.length - 1].color);
+    } else if (next === 0) {
+      color.copy(stops[0].color);
+    } else {
+      const from = stops[next - 1];
+      const to = stops[next];
+      color.lerpColors(from.color, to.color, smoothstep((progress - from.at) / (to.at - from.at)));
+    }
+
+    color.getRGB(rgb, THREE.SRGBColorSpace);
+    pixels[x * 4] = toByte(rgb.r);
+    pixels[x * 4 + 1] = toByte(rgb.g);
+    pixels[x * 4 + 2] = toByte(rgb.b);
+    pixels[x * 4 + 3] = 255;
+  }
+  return pixels;
+}
+
+/**
+ * Soft round sprite for points and billboards (replaces public/glow.png)
+ */
+export function getGlowTexture(options: GlowTextureOptions = {}): THREE.DataTexture {
+  const size = options.size ?? 128;
+  const color = new THREE.Color(options.color ?? 0xffffff);
+  return cached(`glow:${size}:${color.getHexString()}`, () => {
+    const texture = createDataTexture(generateGlowPixels(size, color), size, size, 'glow');
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  });
+}
+
+/**
+ * Tileable grayscale noise, e.g. for roughness or dissolve masks
+ */
+export function getNoiseTexture(options: NoiseTextureOptions = {}): THREE.DataTexture {
+  const { size = 128, seed = 1, cells = 8, octaves = 4 } = options;
+  return cached(`noise:${size}:${seed}:${cells}:${octaves}`, () => {
+    const texture = createDataTexture(generateNoisePixels(size, seed, cells, octaves), size, size, 'noise');
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    return texture;
+  });
+}
+
+/**
+ * Horizontal ramp through the phase colors; sample it with the journey progress as u
+ */
+export function getPhaseRampTexture(options: PhaseRampOptions = {}): THREE.DataTexture {
+  const width = options.width ?? 256;
+  const palette: Record<PhaseId, string> = { ...PHASE_COLORS, ...options.palette };
+  const key = `ramp:${width}:${PHASES.map(({ id }) => palette[id]).join(',')}`;
+  return cached(key, () => {
+    const texture = createDataTexture(generatePhaseRampPixels(width, palette), width, 1, 'phase-ramp');
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.ClampToEdgeWrapping;
+    return texture;
+  });
+}
+
+/**
+ * Dispose and forget every cached texture, e.g. after the palette changed for good
+ */
+export function clearProceduralTextures(): void {
+  cache.forEach(texture => texture.dispose());
+  cache.clear();
+}
@@ -0,0 +1,93 @@
+/**
+ * random.ts
+ *
+ * Seeded randomness for the procedural scenes. Particle positions, explosion
+ * vectors and fragment colors are drawn from a Random instead of
+ * Math.random(), so the same seed gives the same picture on every load -
+ * for design review, snapshot tests and marketing captures.
+ *
+ * The seed comes from the scene's `seed` prop, then the page URL (?seed=...),
+ * then NEXT_PUBLIC_SCENE_SEED, and finally DEFAULT_SCENE_SEED. Scenes fork a
+ * named stream per thing they generate: streams don't depend on how many
+ * numbers another stream drew, and forking again (e.g. when a scene is
+ * rebuilt after a lost context) starts the same sequence over.
+ */
+
+export type SceneSeed = number | string;
+
+export interface Random {
+  // Seed this stream was created from, e.g. "secured2/DataProtectionJourney"
+  seed: string;
+  // Uniform in [0, 1)
+  next(): number;
+  // Uniform in [min, max)
+  range(min: number, max: number): number;
+  // Integer in [min, max)
+  int(min: number, max: number): number;
+  // Uniform in [-width / 2, width / 2), the `(Math.random() - 0.5) * width` pattern
+  centered(width: number): number;
+  pick<T>(items: readonly T[]): T;
+  // Independent stream derived from this one's seed and `label`
+  fork(label: string): Random;
+}
+
+export const DEFAULT_SCENE_SEED = 'secured2';
+
+// Query parameter that overrides the seed for every scene on the page
+export const SEED_QUERY_PARAM = 'seed';
+
+/**
+ * 32-bit hash of a seed (cyrb53 folded to 32 bits)
+ */
+export function hashSeed(seed: SceneSeed): number {
+  const text = String(seed);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+/**
+ * Deterministic random stream (mulberry32) for a seed
+ */
+export function createRandom(seed: SceneSeed): Random {
+  const seedText = String(seed);
+  let state = hashSeed(seedText);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seedText,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min)),
+    centered: width => (next() - 0.5) * width,
+    pick: items => items[Math.floor(next() * items.length)],
+    fork: label => createRandom(`${seedText}/${label}`)
+  };
+}
+
+/**
+ * The seed a scene should use: an explicit seed wins, then the URL, then configuration
+ */
+export function resolveSceneSeed(seed?: SceneSeed): SceneSeed {
+  if (seed !== undefined) return seed;
+
+  if (typeof window !== 'undefined') {
+    const fromUrl = new URLSearchParams(window.location.search).get(SEED_QUERY_PARAM);
+    if (fromUrl) return fromUrl;
+  }
+
+  return process.env.NEXT_PUBLIC_SCENE_SEED || DEFAULT_SCENE_SEED;
+}
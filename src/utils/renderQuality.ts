@@ -0,0 +1,302 @@
+/**
+ * renderQuality.ts
+ *
+ * Adaptive render quality shared by every scene on the page. Scenes report
+ * each rendered frame to one governor, which watches the average frame time
+ * and steps between the low / medium / high tiers with hysteresis: it drops
+ * a tier quickly when frames are slow, but only climbs back after a sustained
+ * run of fast frames, and waits longer before retrying a tier that failed.
+ * Tier changes are broadcast as qualityChange events on each connected bus.
+ */
+
+import * as THREE from 'three';
+import { QUALITY_PIXEL_RATIO, SceneEventBus, SceneQuality } from './sceneEvents';
+
+// Tiers from cheapest to most expensive
+export const QUALITY_TIERS: readonly SceneQuality[] = ['low', 'medium', 'high'];
+
+export interface QualitySettings {
+  // Maximum device pixel ratio to render at
+  pixelRatio: number;
+  shadows: boolean;
+  // Shadow map resolution for shadow casting lights
+  shadowMapSize: number;
+  // Fraction of decorative particles to draw (0..1)
+  particleScale: number;
+  // Point lights kept on, the brightest ones win
+  maxPointLights: number;
+  fog: boolean;
+  // Whether scenes may run postprocessing passes
+  postprocessing: boolean;
+}
+
+export const QUALITY_SETTINGS: Readonly<Record<SceneQuality, QualitySettings>> = {
+  low: {
+    pixelRatio: QUALITY_PIXEL_RATIO.low,
+    shadows: false,
+    shadowMapSize: 256,
+    particleScale: 0.35,
+    maxPointLights: 2,
+    fog: false,
+    postprocessing: false
+  },
+  medium: {
+    pixelRatio: QUALITY_PIXEL_RATIO.medium,
+    shadows: true,
+    shadowMapSize: 512,
+    particleScale: 0.65,
+    maxPointLights: 4,
+    fog: true,
+    postprocessing: false
+  },
+  high: {
+    pixelRatio: QUALITY_PIXEL_RATIO.high,
+    shadows: true,
+    shadowMapSize: 1024,
+    particleScale: 1,
+    maxPointLights: Infinity,
+    fog: true,
+    postprocessing: true
+  }
+};
+
+export interface QualityGovernorOptions {
+  initial?: SceneQuality;
+  // Frames averaged per decision
+  windowSize?: number;
+  // Average frame time (ms) above which the governor steps down (~36 fps)
+  downgradeFrameMs?: number;
+  // Average frame time (ms) below which a window counts towards stepping up (~55 fps)
+  upgradeFrameMs?: number;
+  // Consecutive fast windows needed before stepping up
+  upgradeWindows?: number;
+}
+
+export interface QualityGovernor {
+  getQuality(): SceneQuality;
+  getSettings(): QualitySettings;
+  /**
+   * Report a rendered frame. Several scenes may report the same browser frame;
+   * reports closer together than a few milliseconds are counted once.
+   */
+  recordFrame(timestamp?: number): void;
+  // Force a tier, e.g. from a settings menu or the dev tools
+  setQuality(quality: SceneQuality): void;
+  // Listen for tier changes, returns an unsubscribe function
+  subscribe(listener: (quality: SceneQuality) => void): () => void;
+  // Publish the current tier and every change to a scene's bus, returns a disconnect function
+  connect(bus: SceneEventBus): () => void;
+}
+
+// Reports closer together than this belong to the same frame
+const SAME_FRAME_MS = 4;
+// Gaps longer than this (paused scene, hidden tab) are not frame times
+const MAX_FRAME_GAP_MS = 250;
+
+/**
+ * Create a quality governor. Scenes normally share getQualityGovernor() instead.
+ */
+export function createQualityGovernor(options: QualityGovernorOptions = {}): QualityGovernor {
+  const {
+    initial = 'high',
+    windowSize = 45,
+    downgradeFrameMs = 28,
+    upgradeFrameMs = 18,
+    upgradeWindows = 4
+  } = options;
+
+  let tierIndex = QUALITY_TIERS.indexOf(initial);
+  let lastTimestamp: number | null = null;
+  let windowTotal = 0;
+  let windowFrames = 0;
+  let fastWindows = 0;
+  // Times each tier was abandoned for being too slow, each failure doubles the wait to retry it
+  const failures = QUALITY_TIERS.map(() => 0);
+  const listeners = new Set<(quality: SceneQuality) => void>();
+
+  const resetWindow = () => {
+    windowTotal = 0;
+    windowFrames = 0;
+  };
+
+  const changeTier = (index: number) => {
+    if (index === tierIndex) return;
+    tierIndex = index;
+    fastWindows = 0;
+    resetWindow();
+    const quality = QUALITY_TIERS[tierIndex];
+    [...listeners].forEach(listener => listener(quality));
+  };
+
+  const evaluateWindow = () => {
+    const average = windowTotal / windowFrames;
+    resetWindow();
+
+    if (average > downgradeFrameMs) {
+      fastWindows = 0;
+      if (tierIndex > 0) {
+        failures[tierIndex] += 1;
+        changeTier(tierIndex - 1);
+      }
+      return;
+    }
+
+    if (average < upgradeFrameMs && tierIndex < QUALITY_TIERS.length - 1) {
+      fastWindows += 1;
+      if (fastWindows >= upgradeWindows * 2 ** failures[tierIndex + 1]) {
+        changeTier(tierIndex + 1);
+      }
+    } else {
+      // Frames in the band between the thresholds keep the current tier
+      fastWindows = 0;
+    }
+  };
+
+  return {
+    getQuality: () => QUALITY_TIERS[tierIndex],
+    getSettings: () => QUALITY_SETTINGS[QUALITY_TIERS[tierIndex]],
+    recordFrame(timestamp = performance.now()) {
+      if (lastTimestamp !== null) {
+        const frameTime = timestamp - lastTimestamp;
+        if (frameTime < SAME_FRAME_MS) return;
+        if (frameTime > MAX_FRAME_GAP_MS) {
+          resetWindow();
+        } else {
+          windowTotal += frameTime;
+          windowFrames += 1;
+          if (windowFrames >= windowSize) evaluateWindow();
+        }
+      }
+      lastTimestamp = timestamp;
+    },
+    setQuality(quality) {
+      changeTier(QUALITY_TIERS.indexOf(quality));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    connect(bus) {
+      const publish = (quality: SceneQuality) => bus.emit('qualityChange', { quality });
+      publish(QUALITY_TIERS[tierIndex]);
+      listeners.add(publish);
+      return () => listeners.delete(publish);
+    }
+  };
+}
+
+let sharedGovernor: QualityGovernor | null = null;
+
+/**
+ * The page-wide governor; all scenes render on the same GPU, so they share one budget
+ */
+export function getQualityGovernor(): QualityGovernor {
+  if (!sharedGovernor) {
+    sharedGovernor = createQualityGovernor();
+  }
+  return sharedGovernor;
+}
+
+export interface ApplyRenderQualityOptions {
+  // Decorative particles to thin out, either individual objects or THREE.Points clouds
+  particles?: THREE.Object3D[];
+  // Leave the pixel ratio alone (React Three Fiber manages it through setDpr)
+  skipPixelRatio?: boolean;
+}
+
+/**
+ * Apply a quality tier to an imperative Three.js scene: pixel ratio, shadows,
+ * point lights, fog and particle counts. Safe to call repeatedly; the original
+ * fog and light state is remembered on userData so higher tiers restore it.
+ */
+export function applyRenderQuality(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  quality: SceneQuality,
+  options: ApplyRenderQualityOptions = {}
+): void {
+  const settings = QUALITY_SETTINGS[quality];
+
+  if (!options.skipPixelRatio) {
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, settings.pixelRatio));
+  }
+
+  const pointLights: THREE.PointLight[] = [];
+  let shadowsChanged = renderer.shadowMap.enabled !== settings.shadows;
+  renderer.shadowMap.enabled = settings.shadows;
+
+  scene.traverse(object => {
+    if (object instanceof THREE.PointLight) {
+      pointLights.push(object);
+    }
+    if (object instanceof THREE.Light && object.castShadow && object.shadow) {
+      const { mapSize } = object.shadow;
+      if (mapSize.x !== settings.shadowMapSize) {
+        mapSize.set(settings.shadowMapSize, settings.shadowMapSize);
+        // The map is recreated at the new size on the next shadow pass
+        object.shadow.map?.dispose();
+        object.shadow.map = null;
+        shadowsChanged = true;
+      }
+    }
+  });
+
+  // Materials compile shadow support in, so they need a rebuild when it toggles
+  if (shadowsChanged) {
+    scene.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        materials.forEach(material => { material.needsUpdate = true; });
+      }
+    });
+  }
+
+  // Keep the brightest point lights, only toggling lights this function switched off
+  pointLights
+    .filter(light => light.visible || light.userData.qualityHidden)
+    .sort((a, b) => b.intensity - a.intensity)
+    .forEach((light, index) => {
+      const keep = index < settings.maxPointLights;
+      light.visible = keep;
+      light.userData.qualityHidden = !keep;
+    });
+
+  if (scene.userData.qualityFog === undefined) {
+    scene.userData.qualityFog = scene.fog;
+  }
+  scene.fog = settings.fog ? scene.userData.qualityFog : null;
+
+  if (options.particles) {
+    applyParticleBudget(options.particles, settings.particleScale);
+  }
+}
+
+// Objects moved here are skipped by cameras, which render layer 0
+const CULLED_PARTICLE_LAYER = 31;
+
+/**
+ * Draw only a fraction of a particle set. Points clouds shrink their draw
+ * range and instanced meshes their instance count; other objects move to a
+ * layer the camera ignores, which leaves their `visible` flag free for the
+ * animation timeline.
+ */
+export function applyParticleBudget(particles: THREE.Object3D[], scale: number): void {
+  const objects = particles.filter(particle => !(particle instanceof THREE.Points || particle instanceof THREE.InstancedMesh));
+  const keepCount = Math.ceil(objects.length * scale);
+
+  objects.forEach((object, index) => {
+    object.layers.set(index < keepCount ? 0 : CULLED_PARTICLE_LAYER);
+  });
+
+  particles.forEach(particle => {
+    if (particle instanceof THREE.Points) {
+      const position = particle.geometry.getAttribute('position');
+      if (position) {
+        particle.geometry.setDrawRange(0, Math.ceil(position.count * scale));
+      }
+    } else if (particle instanceof THREE.InstancedMesh) {
+      // The instance buffers are sized to the full set, so the capacity is their length
+      particle.count = Math.ceil(particle.instanceMatrix.count * scale);
+    }
+  });
+}
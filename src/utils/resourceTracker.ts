@@ -0,0 +1,174 @@
+/**
+ * resourceTracker.ts
+ *
+ * Registry for the GPU resources of the hand-built Three.js scenes. A scene
+ * allocates its geometries, materials, textures, shadow maps and renderer
+ * through one tracker and calls dispose() on unmount, so cleanup no longer
+ * depends on a hand-maintained list that misses cloned materials or the odd
+ * RoundedBoxGeometry. In development, dispose() logs what the renderer still
+ * holds afterwards, which is where strict-mode double mounts and fast
+ * refresh make leaks show up.
+ */
+
+import * as THREE from 'three';
+
+// Anything holding GPU memory that three frees through dispose()
+export interface DisposableResource {
+  dispose(): void;
+}
+
+export type ResourceKind = 'geometry' | 'material' | 'texture' | 'renderTarget' | 'renderer' | 'other';
+
+export type ResourceCounts = Record<ResourceKind, number>;
+
+export interface ResourceTracker {
+  // Shown in development reports
+  label: string;
+  // Track a resource (or several) and return it, so allocations can be wrapped inline
+  track<T extends DisposableResource | DisposableResource[]>(resource: T): T;
+  // Track every geometry, material, texture and shadow map under `object`
+  trackObject<T extends THREE.Object3D>(object: T): T;
+  // Resources of each kind that are tracked and not yet disposed
+  counts(): ResourceCounts;
+  // Dispose everything tracked so far (the renderer last); the tracker can be reused afterwards
+  dispose(): void;
+}
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+// Trackers that currently hold resources, for getResourceReport()
+const liveTrackers = new Set<ResourceTracker>();
+
+const kindOf = (resource: DisposableResource): ResourceKind => {
+  if (resource instanceof THREE.BufferGeometry) return 'geometry';
+  if (resource instanceof THREE.Material) return 'material';
+  if (resource instanceof THREE.Texture) return 'texture';
+  if (resource instanceof THREE.RenderTarget) return 'renderTarget';
+  if (resource instanceof THREE.WebGLRenderer) return 'renderer';
+  return 'other';
+};
+
+const emptyCounts = (): ResourceCounts => ({
+  geometry: 0,
+  material: 0,
+  texture: 0,
+  renderTarget: 0,
+  renderer: 0,
+  other: 0
+});
+
+// Textures referenced by a material's map slots (map, normalMap, envMap, ...)
+const materialTextures = (material: THREE.Material): THREE.Texture[] =>
+  Object.values(material).filter((value): value is THREE.Texture => value instanceof THREE.Texture);
+
+/**
+ * Create a tracker for one scene (or one mount of a scene)
+ */
+export function createResourceTracker(label: string): ResourceTracker {
+  const resources = new Set<DisposableResource>();
+  const renderers = new Set<THREE.WebGLRenderer>();
+
+  // Resources disposed elsewhere (e.g. a shadow map resized by the quality governor) drop out on their own
+  const forget = (event: { target: unknown }) => {
+    resources.delete(event.target as DisposableResource);
+    if (!resources.size) liveTrackers.delete(tracker);
+  };
+
+  const add = (resource: DisposableResource) => {
+    if (resources.has(resource)) return;
+    if (resource instanceof THREE.WebGLRenderer) {
+      renderers.add(resource);
+    } else if (resource instanceof THREE.EventDispatcher) {
+      (resource as THREE.EventDispatcher<{ dispose: object }>).addEventListener('dispose', forget);
+    }
+    resources.add(resource);
+    liveTrackers.add(tracker);
+  };
+
+  const tracker: ResourceTracker = {
+    label,
+    track(resource) {
+      (Array.isArray(resource) ? resource : [resource]).forEach(add);
+      return resource;
+    },
+    trackObject(object) {
+      object.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points) {
+          add(child.geometry);
+          const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach(material => {
+            add(material);
+            materialTextures(material).forEach(add);
+          });
+        }
+        if (child instanceof THREE.Light && child.shadow) {
+          add(child.shadow);
+        }
+      });
+      return object;
+    },
+    counts() {
+      const counts = emptyCounts();
+      resources.forEach(resource => {
+        counts[kindOf(resource)] += 1;
+      });
+      return counts;
+    },
+    dispose() {
+      // Everything the renderer uploaded goes first, so the leak report can read its counters
+      [...resources].forEach(resource => {
+        if (resource instanceof THREE.WebGLRenderer) return;
+        try {
+          resource.dispose();
+        } catch (error) {
+          console.error(`[${label}] Failed to dispose resource:`, error);
+        }
+        resources.delete(resource);
+      });
+
+      renderers.forEach(renderer => {
+        if (isDevelopment) reportUndisposed(label, renderer);
+        renderer.dispose();
+        resources.delete(renderer);
+      });
+      renderers.clear();
+      liveTrackers.delete(tracker);
+    }
+  };
+
+  return tracker;
+}
+
+/**
+ * Development report: after a scene has disposed its tracked resources the
+ * renderer should hold no geometries or shader programs. Anything left was
+ * allocated without going through the tracker. Textures are listed for
+ * context only, since three keeps internal targets (e.g. for transmission)
+ * that are freed with the renderer itself.
+ */
+function reportUndisposed(label: string, renderer: THREE.WebGLRenderer): void {
+  const { geometries, textures } = renderer.info.memory;
+  const programs = renderer.info.programs?.length ?? 0;
+  if (!geometries && !programs) return;
+
+  console.warn(
+    `[${label}] GPU resources still held after disposal - allocate them through the scene's resource tracker:`,
+    { geometries, programs, textures }
+  );
+}
+
+/**
+ * Resources held by every live tracker on the page, keyed by label.
+ * Handy from the console while chasing a leak.
+ */
+export function getResourceReport(): Record<string, ResourceCounts> {
+  const report: Record<string, ResourceCounts> = {};
+  liveTrackers.forEach(tracker => {
+    const counts = tracker.counts();
+    const existing = report[tracker.label];
+    report[tracker.label] = existing
+      ? (Object.fromEntries(Object.entries(counts).map(([kind, count]) => [kind, count + existing[kind as ResourceKind]])) as ResourceCounts)
+      : counts;
+  });
+  return report;
+}
@@ -0,0 +1,161 @@
+/**
+ * sceneEffects.ts
+ *
+ * Optional postprocessing for the hand-built scenes: selective bloom on
+ * emissive objects, a vignette and a short chromatic aberration pulse, all in
+ * one effect pass. Bloom strength and vignette follow the journey stage and
+ * ease between stages. Whether a scene runs these at all is the quality
+ * governor's call (QUALITY_SETTINGS[tier].postprocessing), see sceneRuntime.ts.
+ */
+
+import * as THREE from 'three';
+import {
+  ChromaticAberrationEffect,
+  EffectComposer,
+  EffectPass,
+  RenderPass,
+  SelectiveBloomEffect,
+  VignetteEffect
+} from 'postprocessing';
+import { PHASES, PhaseId } from './phases';
+
+// Render layer of the objects that bloom, see markBloom()
+export const BLOOM_LAYER = 11;
+
+export interface StageEffectSettings {
+  // Strength of the bloom on emissive objects
+  bloomIntensity: number;
+  // Darkening towards the edges (0..1)
+  vignette: number;
+}
+
+// The glow builds up towards the secure stage, where the lock should stand out most
+export const STAGE_EFFECTS: Readonly<Record<PhaseId, StageEffectSettings>> = {
+  shrink: { bloomIntensity: 0.6, vignette: 0.3 },
+  shred: { bloomIntensity: 0.9, vignette: 0.4 },
+  secure: { bloomIntensity: 1.6, vignette: 0.55 }
+};
+
+export interface SceneEffectsOptions {
+  // Per-stage overrides of STAGE_EFFECTS
+  stages?: Partial<Record<PhaseId, Partial<StageEffectSettings>>>;
+  // Seconds a chromatic pulse takes to fade out
+  pulseDuration?: number;
+  // Color offset at the start of a pulse, in UV units
+  pulseStrength?: number;
+}
+
+export interface SceneEffects {
+  composer: EffectComposer;
+  // Ease bloom and vignette towards the settings of `phase`
+  setPhase(phase: PhaseId): void;
+  // Start a chromatic aberration pulse
+  pulse(): void;
+  // Draw a frame through the effect chain; delta is in seconds
+  render(delta: number): void;
+  // Whether a stage transition or pulse is still in progress, so on-demand scenes keep drawing
+  isAnimating(): boolean;
+  dispose(): void;
+}
+
+// Settle within about a third of a second regardless of frame rate
+const STAGE_EASING = 10;
+
+const hasEmissive = (material: THREE.Material) =>
+  'emissive' in material && material.emissive instanceof THREE.Color && material.emissive.getHex() !== 0;
+
+/**
+ * Let every emissive mesh under `root` bloom. Safe to call before effects are
+ * created (or while they're disabled): it only sets a render layer.
+ */
+export function markBloom(root: THREE.Object3D): void {
+  root.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    if (materials.some(hasEmissive)) child.layers.enable(BLOOM_LAYER);
+  });
+}
+
+/**
+ * Build the effect chain for one renderer, scene and camera
+ */
+export function createSceneEffects(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: SceneEffectsOptions = {}
+): SceneEffects {
+  const stages = Object.fromEntries(
+    PHASES.map(({ id }) => [id, { ...STAGE_EFFECTS[id], ...options.stages?.[id] }])
+  ) as Record<PhaseId, StageEffectSettings>;
+  const pulseDuration = options.pulseDuration ?? 0.6;
+  const pulseStrength = options.pulseStrength ?? 0.006;
+
+  const composer = new EffectComposer(renderer, { frameBufferType: THREE.HalfFloatType });
+  composer.addPass(new RenderPass(scene, camera));
+
+  const bloom = new SelectiveBloomEffect(scene, camera, {
+    mipmapBlur: true,
+    luminanceThreshold: 0.2,
+    luminanceSmoothing: 0.3,
+    intensity: stages[PHASES[0].id].bloomIntensity
+  });
+  bloom.selection.layer = BLOOM_LAYER;
+  const vignette = new VignetteEffect({ offset: 0.35, darkness: stages[PHASES[0].id].vignette });
+  const chromatic = new ChromaticAberrationEffect({
+    offset: new THREE.Vector2(0, 0),
+    radialModulation: true,
+    modulationOffset: 0.2
+  });
+  composer.addPass(new EffectPass(camera, bloom, vignette, chromatic));
+
+  let target = stages[PHASES[0].id];
+  // Seconds left in the current pulse
+  let pulseRemaining = 0;
+
+  // The composer's buffers follow the renderer, whose size and pixel ratio other code changes
+  const rendererSize = new THREE.Vector2();
+  const composerSize = new THREE.Vector2();
+  let composerPixelRatio = 0;
+  const syncSize = () => {
+    renderer.getSize(rendererSize);
+    const pixelRatio = renderer.getPixelRatio();
+    if (rendererSize.equals(composerSize) && pixelRatio === composerPixelRatio) return;
+    composerSize.copy(rendererSize);
+    composerPixelRatio = pixelRatio;
+    composer.setSize(rendererSize.x, rendererSize.y, false);
+  };
+
+  const isAnimating = () =>
+    pulseRemaining > 0 ||
+    Math.abs(bloom.intensity - target.bloomIntensity) > 0.01 ||
+    Math.abs(vignette.darkness - target.vignette) > 0.01;
+
+  return {
+    composer,
+    setPhase(phase) {
+      target = stages[phase];
+    },
+    pulse() {
+      pulseRemaining = pulseDuration;
+    },
+    render(delta) {
+      syncSize();
+
+      const blend = 1 - Math.exp(-STAGE_EASING * delta);
+      bloom.intensity += (target.bloomIntensity - bloom.intensity) * blend;
+      vignette.darkness += (target.vignette - vignette.darkness) * blend;
+
+      pulseRemaining = Math.max(pulseRemaining - delta, 0);
+      const strength = pulseStrength * (pulseRemaining / pulseDuration) ** 2;
+      chromatic.offset.set(strength, strength * 0.5);
+
+      composer.render(delta);
+    },
+    isAnimating,
+    dispose() {
+      // Disposes every pass, their effects and the internal render targets
+      composer.dispose();
+    }
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * sceneEvents.ts
+ *
+ * Typed publish/subscribe channel between React components and the
+ * imperative Three.js renderers. Each scene instance owns its own bus,
+ * so two journeys on the same page never receive each other's events.
+ */
+
+import { PhaseId, getPhaseAtProgress } from './phases';
+
+// Render quality levels a scene can be asked to switch to
+export type SceneQuality = 'low' | 'medium' | 'high';
+
+// Maximum device pixel ratio a scene should render at for each quality level
+export const QUALITY_PIXEL_RATIO: Readonly<Record<SceneQuality, number>> = {
+  low: 1,
+  medium: 1.5,
+  high: 2
+};
+
+// Payloads for every event a scene can publish or receive
+export interface SceneEventMap {
+  // Journey progress (0..1)
+  progress: { progress: number };
+  // Active phase changed, previous is null for the first phase published
+  phaseChange: { phase: PhaseId; previous: PhaseId | null };
+  pause: { reason?: string };
+  resume: { reason?: string };
+  qualityChange: { quality: SceneQuality };
+  // Return the scene to its initial state
+  reset: Record<string, never>;
+  // Ask whatever drives the scene to jump to a progress value (0..1), e.g. from a debug scrubber
+  seek: { progress: number };
+  // Replace the scene's phase colors (CSS colors, missing phases use the shared ones)
+  phaseColors: { colors: Partial<Record<PhaseId, string>> };
+}
+
+export type SceneEventName = keyof SceneEventMap;
+
+export type SceneEventHandler<K extends SceneEventName> = (payload: SceneEventMap[K]) => void;
+
+export interface SceneEventBus {
+  // Identifier of the scene instance this bus belongs to (useful when debugging)
+  readonly id: string;
+  emit<K extends SceneEventName>(name: K, payload: SceneEventMap[K]): void;
+  // Subscribe to an event, returns an unsubscribe function
+  on<K extends SceneEventName>(name: K, handler: SceneEventHandler<K>): () => void;
+  off<K extends SceneEventName>(name: K, handler: SceneEventHandler<K>): void;
+  // Last payload emitted for an event, so late subscribers can catch up
+  getLast<K extends SceneEventName>(name: K): SceneEventMap[K] | undefined;
+  // Remove every handler and forget the last payloads
+  clear(): void;
+}
+
+let busCounter = 0;
+
+/**
+ * Create an event bus for a single scene instance
+ */
+export function createSceneEventBus(id: string = `scene-${++busCounter}`): SceneEventBus {
+  const handlers = new Map<SceneEventName, Set<SceneEventHandler<SceneEventName>>>();
+  const lastPayloads = new Map<SceneEventName, SceneEventMap[SceneEventName]>();
+
+  const off = <K extends SceneEventName>(name: K, handler: SceneEventHandler<K>) => {
+    handlers.get(name)?.delete(handler as SceneEventHandler<SceneEventName>);
+  };
+
+  return {
+    id,
+    emit(name, payload) {
+      lastPayloads.set(name, payload);
+      // Copy so handlers can unsubscribe while the event is being dispatched
+      [...(handlers.get(name) ?? [])].forEach(handler => {
+        try {
+          handler(payload);
+        } catch (error) {
+          console.error(`Error in "${name}" handler on ${id}:`, error);
+        }
+      });
+    },
+    on(name, handler) {
+      if (!handlers.has(name)) {
+        handlers.set(name, new Set());
+      }
+      handlers.get(name)!.add(handler as SceneEventHandler<SceneEventName>);
+      return () => off(name, handler);
+    },
+    off,
+    getLast<K extends SceneEventName>(name: K) {
+      return lastPayloads.get(name) as SceneEventMap[K] | undefined;
+    },
+    clear() {
+      handlers.clear();
+      lastPayloads.clear();
+    }
+  };
+}
+
+/**
+ * Publish journey progress and, when the active phase changes, a phaseChange event
+ */
+export function publishProgress(bus: SceneEventBus, progress: number): void {
+  bus.emit('progress', { progress });
+
+  const phase = getPhaseAtProgress(progress).id;
+  const previous = bus.getLast('phaseChange')?.phase ?? null;
+  if (phase !== previous) {
+    bus.emit('phaseChange', { phase, previous });
+  }
+}
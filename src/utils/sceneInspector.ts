@@ -0,0 +1,148 @@
+/**
+ * sceneInspector.ts
+ *
+ * Registry behind the development scene inspector (SceneInspector.tsx).
+ * Imperative scenes register through the scene runtime and React Three Fiber
+ * scenes through SceneInspectorProbe, so the overlay can list the objects of
+ * every live scene, read renderer.info and scrub journeys through their event
+ * bus. Scenes that move their camera with a rig (cameraRig.ts) can have
+ * keyframes captured and exported from the overlay. Nothing registers
+ * unless the page was opened in development with `?inspect` in the URL.
+ */
+
+import * as THREE from 'three';
+import { SceneEventBus } from './sceneEvents';
+import { JourneyObjectState, captureObjectState } from './journeyState';
+import { CameraRig } from './cameraRig';
+
+export const INSPECT_QUERY_PARAM = 'inspect';
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+export interface InspectedScene {
+  // Shown in the overlay's scene picker
+  label: string;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  renderer: THREE.WebGLRenderer;
+  // Bus the overlay reads progress from and sends seek events to; scenes without one can't be scrubbed
+  bus?: SceneEventBus;
+  // Rig the camera editor captures keyframes into
+  cameraRig?: CameraRig;
+  // Draw a frame, for scenes rendering on demand
+  invalidate?: () => void;
+}
+
+export interface InspectedObject extends JourneyObjectState {
+  id: string;
+  // Object name, or its type for unnamed objects
+  name: string;
+  type: string;
+  // 0 for children of the scene
+  depth: number;
+  // Opacity of the object's own material, null for groups, lights and the like
+  materialOpacity: number | null;
+}
+
+export interface RendererStats {
+  // Frames rendered since the renderer was created
+  frame: number;
+  // Draw calls and primitives of the last render() call
+  calls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  // GPU resources currently allocated
+  geometries: number;
+  textures: number;
+}
+
+type InspectedScenesListener = (scenes: readonly InspectedScene[]) => void;
+
+let inspectedScenes: readonly InspectedScene[] = [];
+const listeners = new Set<InspectedScenesListener>();
+
+const notify = () => listeners.forEach(listener => listener(inspectedScenes));
+
+/**
+ * Whether the inspector should run: development builds opened with `?inspect`
+ */
+export function isSceneInspectorEnabled(): boolean {
+  if (!isDevelopment || typeof window === 'undefined') return false;
+  return new URLSearchParams(window.location.search).has(INSPECT_QUERY_PARAM);
+}
+
+/**
+ * Show a scene in the inspector, returns a function that removes it again
+ */
+export function registerInspectedScene(entry: InspectedScene): () => void {
+  inspectedScenes = [...inspectedScenes, entry];
+  notify();
+
+  return () => {
+    inspectedScenes = inspectedScenes.filter(scene => scene !== entry);
+    notify();
+  };
+}
+
+export function getInspectedScenes(): readonly InspectedScene[] {
+  return inspectedScenes;
+}
+
+/**
+ * Follow scenes registering and going away, returns an unsubscribe function
+ */
+export function subscribeInspectedScenes(listener: InspectedScenesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const materialOpacity = (object: THREE.Object3D): number | null => {
+  const material = (object as THREE.Mesh).material;
+  if (!material) return null;
+  return Array.isArray(material) ? material[0]?.opacity ?? null : material.opacity;
+};
+
+/**
+ * Transforms and opacity of the scene's objects, parents first, down to `maxDepth`
+ */
+export function listSceneObjects(scene: THREE.Scene, maxDepth = 2): InspectedObject[] {
+  const objects: InspectedObject[] = [];
+
+  const visit = (object: THREE.Object3D, depth: number) => {
+    const opacity = materialOpacity(object);
+    objects.push({
+      ...captureObjectState(object, opacity ?? 1),
+      id: object.uuid,
+      name: object.name || object.type,
+      type: object.type,
+      depth,
+      materialOpacity: opacity
+    });
+    if (depth < maxDepth) {
+      object.children.forEach(child => visit(child, depth + 1));
+    }
+  };
+
+  scene.children.forEach(child => visit(child, 0));
+  return objects;
+}
+
+/**
+ * Counters from renderer.info. Scenes with postprocessing render several
+ * passes per frame, so calls and primitives only cover the last pass
+ */
+export function getRendererStats(renderer: THREE.WebGLRenderer): RendererStats {
+  const { render, memory } = renderer.info;
+  return {
+    frame: render.frame,
+    calls: render.calls,
+    triangles: render.triangles,
+    points: render.points,
+    lines: render.lines,
+    geometries: memory.geometries,
+    textures: memory.textures
+  };
+}
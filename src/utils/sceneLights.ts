@@ -0,0 +1,70 @@
+/**
+ * sceneLights.ts
+ *
+ * Light rigs shared by the hand-built scenes. sceneRuntime.ts adds one per
+ * runtime; the journey's worker renderer (journeyScene.ts) adds the 'journey'
+ * rig itself.
+ */
+
+import * as THREE from 'three';
+
+export type SceneLightsPreset = 'none' | 'basic' | 'studio' | 'journey';
+
+/**
+ * Add a preset's lights to `scene`
+ */
+export function addSceneLights(scene: THREE.Scene, preset: SceneLightsPreset): void {
+  if (preset === 'none') return;
+
+  if (preset === 'journey') {
+    // Bright ambient base with metallic highlights and one accent per phase
+    scene.add(new THREE.AmbientLight(0x404040, 2.5));
+
+    const keyLight = new THREE.DirectionalLight(0xffffff, 2.0);
+    keyLight.position.set(2, 3, 4);
+    keyLight.castShadow = true;
+    keyLight.shadow.mapSize.set(1024, 1024);
+    scene.add(keyLight);
+
+    // Rim lighting on metal surfaces from the opposite side
+    const metalRimLight = new THREE.DirectionalLight(0xccffee, 0.8);
+    metalRimLight.position.set(-2, 1, -3);
+    scene.add(metalRimLight);
+
+    const pointLights: [number, number, number, [number, number, number]][] = [
+      // Brand blue and a secondary accent
+      [0x0088ff, 3.5, 15, [0, 1, 4]],
+      [0x00ccff, 3.0, 12, [-3, 2, 3]],
+      // Rim light behind the objects for edge definition
+      [0xeeeeff, 2.5, 10, [0, -3, -5]],
+      // Shred stage orange, secure stage green (kept dim and distant)
+      [0xff7700, 2, 10, [3, -1, 2]],
+      [0x20ffb0, 0.8, 15, [-5, -3, -5]]
+    ];
+    pointLights.forEach(([color, intensity, distance, position]) => {
+      const light = new THREE.PointLight(color, intensity, distance);
+      light.position.set(...position);
+      scene.add(light);
+    });
+    return;
+  }
+
+  scene.add(new THREE.AmbientLight(0xffffff, 0.4));
+
+  const pointLight1 = new THREE.PointLight(0xffffff, 1);
+  pointLight1.position.set(10, 10, 10);
+  scene.add(pointLight1);
+
+  const pointLight2 = new THREE.PointLight(0x0ea5e9, 0.5);
+  pointLight2.position.set(-10, -10, -10);
+  scene.add(pointLight2);
+
+  if (preset === 'studio') {
+    const spotLight = new THREE.SpotLight(0x38bdf8, 0.5);
+    spotLight.position.set(0, 5, 0);
+    spotLight.angle = 0.3;
+    spotLight.penumbra = 0.8;
+    spotLight.castShadow = true;
+    scene.add(spotLight);
+  }
+}
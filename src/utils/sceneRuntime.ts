@@ -0,0 +1,354 @@
+/**
+ * sceneRuntime.ts
+ *
+ * One runtime for the imperative (non-R3F) Three.js scenes. It owns the
+ * renderer lifecycle, sizing through a ResizeObserver, the animation loop
+ * (paused on request, on the bus' pause event, while the container is
+ * scrolled out of view and while the tab is hidden), a lights preset, render
+ * quality tiers and disposal through a resource tracker. Scenes plug in as
+ * modules that add their objects in setup() and animate them in update().
+ *
+ * Scenes that opt into postprocessing (sceneEffects.ts) get it while the
+ * quality tier allows it; the effect chain is dropped on weaker tiers.
+ *
+ * Scenes whose picture only changes with the journey progress can use the
+ * 'demand' render mode: a frame is drawn after each progress, phase or
+ * quality change and on invalidate(), and none in between.
+ *
+ * In development, `?inspect` lists every runtime in the scene inspector
+ * (sceneInspector.ts).
+ *
+ * The worker renderer (journeyScene.ts) stays separate: OffscreenCanvas has
+ * no element to observe. It shares the light presets (sceneLights.ts) instead.
+ */
+
+import * as THREE from 'three';
+import { PHASES, PhaseId } from './phases';
+import { SceneEventBus, SceneQuality, createSceneEventBus } from './sceneEvents';
+import { QUALITY_SETTINGS, applyRenderQuality, getQualityGovernor } from './renderQuality';
+import { ResourceTracker, createResourceTracker } from './resourceTracker';
+import { observeSceneVisibility } from './sceneVisibility';
+import { SceneEffects, SceneEffectsOptions, createSceneEffects } from './sceneEffects';
+import { Random, SceneSeed, createRandom, resolveSceneSeed } from './random';
+import { isSceneInspectorEnabled, registerInspectedScene } from './sceneInspector';
+import { CameraRig } from './cameraRig';
+import { SceneLightsPreset, addSceneLights } from './sceneLights';
+
+// 'continuous' draws every animation frame, 'demand' only after something changed
+export type SceneRenderMode = 'continuous' | 'demand';
+
+export interface SceneRuntimeContext {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  renderer: THREE.WebGLRenderer;
+  // Allocate geometries, materials and textures through this so dispose() releases them
+  resources: ResourceTracker;
+  // Seeded stream for everything the modules randomize, forked per runtime label
+  random: Random;
+  bus: SceneEventBus;
+  // Latest journey progress and phase published on the bus
+  progress: number;
+  phase: PhaseId;
+  // Postprocessing, when the scene asked for it and the quality tier allows it
+  effects: SceneEffects | null;
+}
+
+export interface SceneModuleHandle {
+  // Called every frame before rendering; delta and elapsed are in seconds
+  update?(delta: number, elapsed: number): void;
+  // Objects thinned out by the quality tier's particle budget
+  particles?: THREE.Object3D[];
+  // Anything the resource tracker doesn't cover (timers, listeners)
+  dispose?(): void;
+}
+
+export interface SceneModule {
+  setup(context: SceneRuntimeContext): SceneModuleHandle | void;
+}
+
+export interface SceneRuntimeOptions {
+  // Shown in development leak reports
+  label: string;
+  // Element the scene fills, observed for size and visibility
+  container: HTMLElement;
+  // Render into an existing canvas instead of appending a new one to the container
+  canvas?: HTMLCanvasElement;
+  renderer?: THREE.WebGLRendererParameters;
+  camera?: {
+    fov?: number;
+    near?: number;
+    far?: number;
+    position?: [number, number, number];
+  };
+  lights?: SceneLightsPreset;
+  modules?: SceneModule[];
+  // Bus driving this scene instance, a private one is created when omitted
+  events?: SceneEventBus;
+  // Follow the page-wide quality governor (default true). Scenes that step quality themselves turn this off
+  autoQuality?: boolean;
+  // Stop rendering while the container is out of view or the tab is hidden (default true)
+  pauseWhenHidden?: boolean;
+  renderMode?: SceneRenderMode;
+  // Run the postprocessing chain on tiers that allow it
+  effects?: SceneEffectsOptions;
+  // Seed for context.random (see random.ts for the fallbacks)
+  seed?: SceneSeed;
+  // Rig moving the camera, edited through the scene inspector's camera editor
+  cameraRig?: CameraRig;
+  // Called after the camera and renderer have been resized, e.g. to reframe for small screens
+  onResize?: (width: number, height: number, context: SceneRuntimeContext) => void;
+}
+
+export interface SceneRuntime {
+  context: SceneRuntimeContext;
+  // Start (or resume) the animation loop
+  start(): void;
+  // Stop the animation loop until start() is called again
+  stop(): void;
+  // Render a single frame outside the loop; delta (seconds) advances effect transitions
+  render(delta?: number): void;
+  // Request a frame (with module updates) in 'demand' mode; continuous scenes draw one anyway
+  invalidate(): void;
+  setRenderMode(mode: SceneRenderMode): void;
+  // Re-read the container size
+  resize(): void;
+  dispose(): void;
+}
+
+/**
+ * Create a renderer in `container` and run the given scene modules
+ */
+export function createSceneRuntime(options: SceneRuntimeOptions): SceneRuntime {
+  const { container } = options;
+  const bus = options.events ?? createSceneEventBus();
+  const governor = getQualityGovernor();
+  const resources = createResourceTracker(options.label);
+
+  const width = Math.max(container.clientWidth, 1);
+  const height = Math.max(container.clientHeight, 1);
+
+  const scene = new THREE.Scene();
+  const camera = new THREE.PerspectiveCamera(
+    options.camera?.fov ?? 75,
+    width / height,
+    options.camera?.near ?? 0.1,
+    options.camera?.far ?? 1000
+  );
+  camera.position.set(...(options.camera?.position ?? [0, 0, 5]));
+
+  const renderer = resources.track(new THREE.WebGLRenderer({
+    antialias: true,
+    alpha: true,
+    ...options.renderer,
+    canvas: options.canvas
+  }));
+  renderer.setSize(width, height);
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, QUALITY_SETTINGS[governor.getQuality()].pixelRatio));
+  renderer.setClearColor(0x000000, 0);
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+  if (!options.canvas) {
+    container.appendChild(renderer.domElement);
+  }
+
+  addSceneLights(scene, options.lights ?? 'basic');
+
+  const context: SceneRuntimeContext = {
+    scene,
+    camera,
+    renderer,
+    resources,
+    random: createRandom(resolveSceneSeed(options.seed)).fork(options.label),
+    bus,
+    progress: bus.getLast('progress')?.progress ?? 0,
+    phase: bus.getLast('phaseChange')?.phase ?? PHASES[0].id,
+    effects: null
+  };
+
+  // Create or drop the effect chain for a quality tier
+  const syncEffects = (quality: SceneQuality) => {
+    if (!options.effects) return;
+    if (QUALITY_SETTINGS[quality].postprocessing) {
+      if (context.effects) return;
+      context.effects = createSceneEffects(renderer, scene, camera, options.effects);
+      context.effects.setPhase(context.phase);
+    } else if (context.effects) {
+      context.effects.dispose();
+      context.effects = null;
+    }
+  };
+  syncEffects(governor.getQuality());
+
+  const handles = (options.modules ?? []).map(module => module.setup(context) ?? {});
+  const particles = () => handles.flatMap(handle => handle.particles ?? []);
+  // Everything the modules added (and the lights' shadow maps) is released with the runtime
+  resources.trackObject(scene);
+
+  // Loop state: frames are drawn only while started and visible, and in
+  // 'demand' mode only while a frame has been requested
+  let started = false;
+  let renderMode: SceneRenderMode = options.renderMode ?? 'continuous';
+  let invalidated = true;
+  let frameId: number | null = null;
+  let lastTime: number | null = null;
+  let elapsed = 0;
+
+  const render = (delta = 0) => {
+    if (context.effects) {
+      context.effects.render(delta);
+    } else {
+      renderer.render(scene, camera);
+    }
+  };
+
+  const frame = (time: number) => {
+    frameId = null;
+    invalidated = false;
+    const delta = lastTime === null ? 0 : Math.min((time - lastTime) / 1000, 0.1);
+    lastTime = time;
+    elapsed += delta;
+
+    try {
+      handles.forEach(handle => handle.update?.(delta, elapsed));
+      render(delta);
+      // On-demand frames come at irregular intervals and say nothing about the frame rate
+      if (renderMode === 'continuous') governor.recordFrame(time);
+    } catch (error) {
+      console.error(`[${options.label}] Error in animation loop:`, error);
+      cancelLoop();
+      return;
+    }
+
+    // On-demand scenes keep drawing until effect transitions have settled
+    if (renderMode === 'continuous' || context.effects?.isAnimating()) {
+      invalidated = true;
+      syncLoop();
+    }
+  };
+
+  const cancelLoop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+    lastTime = null;
+  };
+
+  const syncLoop = () => {
+    const visible = options.pauseWhenHidden === false || visibility.isVisible();
+    if (started && visible && (renderMode === 'continuous' || invalidated)) {
+      if (frameId === null) frameId = requestAnimationFrame(frame);
+    } else {
+      cancelLoop();
+    }
+  };
+
+  const invalidate = () => {
+    invalidated = true;
+    syncLoop();
+  };
+
+  const resize = () => {
+    const nextWidth = container.clientWidth;
+    const nextHeight = container.clientHeight;
+    if (!nextWidth || !nextHeight) return;
+
+    camera.aspect = nextWidth / nextHeight;
+    camera.updateProjectionMatrix();
+    renderer.setSize(nextWidth, nextHeight);
+    options.onResize?.(nextWidth, nextHeight, context);
+    // Keep the picture while the loop is stopped
+    if (frameId === null) render();
+  };
+
+  const resizeObserver = new ResizeObserver(resize);
+  resizeObserver.observe(container);
+
+  // Changes requested while hidden are drawn as soon as the scene is visible again
+  const visibility = observeSceneVisibility(container, syncLoop);
+
+  const unregisterInspected = isSceneInspectorEnabled()
+    ? registerInspectedScene({
+      label: options.label,
+      scene,
+      camera,
+      renderer,
+      bus,
+      cameraRig: options.cameraRig,
+      invalidate
+    })
+    : null;
+
+  const runtime: SceneRuntime = {
+    context,
+    start() {
+      started = true;
+      syncLoop();
+    },
+    stop() {
+      started = false;
+      syncLoop();
+    },
+    render,
+    invalidate,
+    setRenderMode(mode) {
+      renderMode = mode;
+      invalidate();
+    },
+    resize,
+    dispose() {
+      started = false;
+      cancelLoop();
+      resizeObserver.disconnect();
+      visibility.disconnect();
+      unregisterInspected?.();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      handles.forEach(handle => handle.dispose?.());
+      context.effects?.dispose();
+      context.effects = null;
+      resources.dispose();
+      if (!options.canvas && renderer.domElement.parentNode === container) {
+        container.removeChild(renderer.domElement);
+      }
+    }
+  };
+
+  // Scene state and playback published on this scene's bus
+  const unsubscribers = [
+    bus.on('progress', ({ progress }) => {
+      context.progress = progress;
+      invalidate();
+    }),
+    bus.on('phaseChange', ({ phase }) => {
+      context.phase = phase;
+      context.effects?.setPhase(phase);
+      invalidate();
+    }),
+    bus.on('pause', runtime.stop),
+    bus.on('resume', runtime.start),
+    bus.on('reset', () => {
+      context.progress = 0;
+      context.phase = PHASES[0].id;
+      context.effects?.setPhase(context.phase);
+      invalidate();
+    }),
+    // Effects follow the tier even for scenes that apply the rest of it themselves
+    bus.on('qualityChange', ({ quality }) => {
+      syncEffects(quality);
+      invalidate();
+    })
+  ];
+
+  if (options.autoQuality !== false) {
+    unsubscribers.push(
+      bus.on('qualityChange', ({ quality }) => {
+        applyRenderQuality(renderer, scene, quality, { particles: particles() });
+        invalidate();
+      }),
+      // Publishes the current tier right away
+      governor.connect(bus)
+    );
+  }
+
+  render();
+  return runtime;
+}
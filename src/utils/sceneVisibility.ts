@@ -0,0 +1,61 @@
+/**
+ * sceneVisibility.ts
+ *
+ * Tells a scene whether anyone can see it: its element has to intersect the
+ * viewport and the tab has to be in the foreground. Scenes stop their render
+ * loops while hidden so a page scrolled past the hero, or left in a
+ * background tab, stops drawing frames nobody sees.
+ */
+
+export interface SceneVisibilityObserver {
+  // Whether the element is currently on screen in a foreground tab
+  isVisible(): boolean;
+  disconnect(): void;
+}
+
+/**
+ * Watch `element` and call `onChange` whenever its visibility flips
+ */
+export function observeSceneVisibility(
+  element: Element,
+  onChange: (visible: boolean) => void
+): SceneVisibilityObserver {
+  // Assume visible until told otherwise, so browsers without the APIs keep rendering
+  let inViewport = true;
+  let tabVisible = typeof document === 'undefined' || document.visibilityState !== 'hidden';
+  let visible = inViewport && tabVisible;
+
+  const update = () => {
+    const next = inViewport && tabVisible;
+    if (next === visible) return;
+    visible = next;
+    onChange(visible);
+  };
+
+  let intersectionObserver: IntersectionObserver | null = null;
+  if (typeof IntersectionObserver !== 'undefined') {
+    intersectionObserver = new IntersectionObserver(([entry]) => {
+      inViewport = entry.isIntersecting;
+      update();
+    });
+    intersectionObserver.observe(element);
+  }
+
+  const handleVisibilityChange = () => {
+    tabVisible = document.visibilityState !== 'hidden';
+    update();
+  };
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return {
+    isVisible: () => visible,
+    disconnect() {
+      intersectionObserver?.disconnect();
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    }
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * shamir.ts
+ *
+ * Shamir's secret sharing over GF(256), used by the shred stage to split a
+ * demo key into n shares where any k of them reconstruct the key and fewer
+ * reveal nothing about it. Works byte by byte, so secrets of any length work.
+ */
+
+export interface SecretShare {
+  // Evaluation point, 1..255 (0 would be the secret itself)
+  x: number;
+  y: Uint8Array;
+}
+
+// Log/exp tables for GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator 3 (x + 1)
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  // Duplicate so products of two logs never need a modulo
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+})();
+
+const mul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const div = (a: number, b: number) => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]);
+
+const defaultRandom = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Split a secret into `shareCount` shares, any `threshold` of which reconstruct it
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  shareCount: number,
+  threshold: number,
+  random: (length: number) => Uint8Array = defaultRandom
+): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) throw new RangeError('Threshold must be an integer of at least 2.');
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > 255) {
+    throw new RangeError('Share count must be between the threshold and 255.');
+  }
+
+  const shares: SecretShare[] = Array.from({ length: shareCount }, (_, index) => ({
+    x: index + 1,
+    y: new Uint8Array(secret.length)
+  }));
+
+  secret.forEach((byte, byteIndex) => {
+    // Random polynomial of degree threshold - 1 whose constant term is the secret byte
+    const coefficients = [byte, ...random(threshold - 1)];
+
+    shares.forEach(share => {
+      // Horner's method, highest degree first
+      let y = 0;
+      for (let i = coefficients.length - 1; i >= 0; i--) {
+        y = mul(y, share.x) ^ coefficients[i];
+      }
+      share.y[byteIndex] = y;
+    });
+  });
+
+  return shares;
+}
+
+/**
+ * Reconstruct a secret with Lagrange interpolation at x = 0. With fewer shares
+ * than the threshold this still returns bytes - just not the secret.
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) throw new RangeError('At least one share is required.');
+  if (new Set(shares.map(share => share.x)).size !== shares.length) throw new RangeError('Shares must be distinct.');
+
+  const length = shares[0].y.length;
+  const secret = new Uint8Array(length);
+
+  for (let byteIndex = 0; byteIndex < length; byteIndex++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      // Lagrange basis polynomial for share i evaluated at 0
+      let basis = 1;
+      shares.forEach((other, j) => {
+        if (i === j) return;
+        // In GF(256) subtraction is XOR, so (0 - x_j) / (x_i - x_j) = x_j / (x_i ^ x_j)
+        basis = mul(basis, div(other.x, share.x ^ other.x));
+      });
+      value ^= mul(share.y[byteIndex], basis);
+    });
+    secret[byteIndex] = value;
+  }
+
+  return secret;
+}
@@ -2,9 +2,16 @@
  * Type declarations for the Three.js renderer utility
  */
 
+import { PhaseId } from './phases';
+import { SceneEventBus } from './sceneEvents';
+import { SceneSeed } from './random';
+
 export interface ThreeJSSceneInitParams {
   container: HTMLElement;
+  events?: SceneEventBus;
   updateProgress?: (progress: number) => void;
+  phaseColors?: Partial<Record<PhaseId, string>>;
+  seed?: SceneSeed;
 }
 
 export function initThreeJSScene(params: ThreeJSSceneInitParams): () => void;
@@ -0,0 +1,257 @@
+/**
+ * timelineSpec.ts
+ *
+ * Small engine for choreography written as data. A spec is a list of beats:
+ * which target to animate, the property values to reach (or, for particle
+ * sets, a named per-particle motion), and when - in phase-relative units, so
+ * `{ phase: 'secure', at: 0.5 }` stays halfway through the secure stage
+ * however phases.ts is retimed. Beats without an end are instant sets.
+ *
+ * validateTimelineSpec() reports beats outside the journey, beats that end
+ * before they start and beats that write the same property at the same time.
+ * buildTimelineFromSpec() adds the beats to a GSAP timeline whose time equals
+ * journey progress, so `timeline.progress(0.55)` shows the journey at 55%.
+ */
+
+import gsap from 'gsap';
+import { PhaseId, PHASE_BY_ID, phaseTime } from './phases';
+import { InstancedParticle, InstancedParticleSystem, tweenInstances } from './instancedParticles';
+import { Random } from './random';
+
+// A moment of the journey: `at` runs from 0 (phase start) to 1 (phase end)
+export interface PhaseTime {
+  phase: PhaseId;
+  at: number;
+}
+
+export type BeatValues = Record<string, number | boolean>;
+
+export interface BeatStagger {
+  // Progress between the first and the last particle starting
+  amount: number;
+  // linear: by particle index, waves: eight interleaved waves, random: seeded per particle
+  pattern?: 'linear' | 'waves' | 'random';
+}
+
+interface BeatBase<TTarget extends string> {
+  // Unique name, used in validation messages
+  id: string;
+  target: TTarget;
+  start: PhaseTime;
+  // Omitted for instant sets
+  end?: PhaseTime;
+  // GSAP ease name, DEFAULT_BEAT_EASE when omitted
+  ease?: string;
+}
+
+export interface PropertyBeat<TTarget extends string> extends BeatBase<TTarget> {
+  to: BeatValues;
+  // Explicit start values; otherwise the target's values when the beat starts
+  from?: BeatValues;
+  // Per-breakpoint overrides of `from` / `to`, e.g. { mobile: { to: { z: 5.5 } } }
+  variants?: Record<string, { from?: BeatValues; to?: BeatValues }>;
+}
+
+export interface InstanceBeat<TTarget extends string, TMotion extends string> extends BeatBase<TTarget> {
+  // Per-particle motion applied to an instanced particle set
+  motion: TMotion;
+  stagger?: BeatStagger;
+}
+
+export type TimelineBeat<TTarget extends string, TMotion extends string = never> =
+  | PropertyBeat<TTarget>
+  | InstanceBeat<TTarget, TMotion>;
+
+export type TimelineSpec<TTarget extends string, TMotion extends string = never> = readonly TimelineBeat<TTarget, TMotion>[];
+
+export interface InstanceMotion {
+  // Particle properties the motion writes, for overlap checks (e.g. ['position', 'scale'])
+  channels: readonly string[];
+  // Called once per particle when the timeline is built, e.g. to draw random targets
+  prepare?: (particle: InstancedParticle, random: Random, total: number) => void;
+  // Set the particle's state for its eased progress (0..1) from values kept in userData
+  update: (particle: InstancedParticle, progress: number, total: number) => void;
+}
+
+export interface TimelineSpecIssue {
+  beat: string;
+  kind: 'duplicate-id' | 'out-of-range' | 'reversed' | 'overlap' | 'stagger';
+  message: string;
+}
+
+export interface TimelineSpecBuildOptions<TMotion extends string> {
+  motions: Record<TMotion, InstanceMotion>;
+  // Seeds motion preparation and random staggers, forked per beat
+  random: Random;
+  // Key into each beat's `variants`
+  variant?: string;
+}
+
+export const DEFAULT_BEAT_EASE = 'power2.inOut';
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+// Gaps smaller than this between two beats on one property don't count as overlap
+const TIME_EPSILON = 1e-6;
+
+const isInstanceBeat = <TTarget extends string, TMotion extends string>(
+  beat: TimelineBeat<TTarget, TMotion>
+): beat is InstanceBeat<TTarget, TMotion> => 'motion' in beat;
+
+/**
+ * Journey progress of a phase-relative time
+ */
+export function resolvePhaseTime(time: PhaseTime): number {
+  return phaseTime(time.phase, time.at);
+}
+
+/**
+ * Start and end of a beat in journey progress; instant beats end where they start
+ */
+export function getBeatSpan(beat: TimelineBeat<string, string>): { start: number; end: number } {
+  const start = resolvePhaseTime(beat.start);
+  return { start, end: beat.end ? resolvePhaseTime(beat.end) : start };
+}
+
+const describeTime = (time: PhaseTime) => `${time.phase} ${time.at}`;
+
+/**
+ * Problems in a spec; an empty list means every beat fits the journey and no
+ * two beats fight over the same property
+ */
+export function validateTimelineSpec<TTarget extends string, TMotion extends string>(
+  spec: TimelineSpec<TTarget, TMotion>,
+  motions?: Partial<Record<TMotion, InstanceMotion>>
+): TimelineSpecIssue[] {
+  const issues: TimelineSpecIssue[] = [];
+  const seen = new Set<string>();
+  // Beats per "target.property" they write
+  const writers = new Map<string, { id: string; start: number; end: number }[]>();
+
+  spec.forEach(beat => {
+    if (seen.has(beat.id)) {
+      issues.push({ beat: beat.id, kind: 'duplicate-id', message: `Beat id "${beat.id}" is used more than once` });
+    }
+    seen.add(beat.id);
+
+    [beat.start, beat.end].forEach(time => {
+      if (time && (time.at < 0 || time.at > 1 || !(time.phase in PHASE_BY_ID))) {
+        issues.push({ beat: beat.id, kind: 'out-of-range', message: `"${describeTime(time)}" is outside its phase (0..1)` });
+      }
+    });
+
+    const { start, end } = getBeatSpan(beat);
+    if (end < start) {
+      issues.push({ beat: beat.id, kind: 'reversed', message: `Ends (${end}) before it starts (${start})` });
+    }
+
+    let channels: readonly string[];
+    if (isInstanceBeat(beat)) {
+      const stagger = beat.stagger?.amount ?? 0;
+      if (stagger < 0 || stagger >= end - start) {
+        issues.push({ beat: beat.id, kind: 'stagger', message: `Stagger ${stagger} leaves no time for the motion (${end - start})` });
+      }
+      channels = motions?.[beat.motion]?.channels ?? [beat.motion];
+    } else {
+      channels = Object.keys({ ...beat.from, ...beat.to });
+    }
+
+    channels.forEach(channel => {
+      const key = `${beat.target}.${channel}`;
+      const span = { id: beat.id, start, end };
+      const others = writers.get(key) ?? [];
+      others.forEach(other => {
+        // Two sets at one moment, or a set or tween inside another tween
+        const overlaps = span.start === span.end && other.start === other.end
+          ? Math.abs(span.start - other.start) < TIME_EPSILON
+          : span.start < other.end - TIME_EPSILON && other.start < span.end - TIME_EPSILON;
+        if (overlaps) {
+          issues.push({ beat: beat.id, kind: 'overlap', message: `Writes ${key} while "${other.id}" does` });
+        }
+      });
+      writers.set(key, [...others, span]);
+    });
+  });
+
+  return issues;
+}
+
+// Start offset of each particle in progress units
+const staggerOffsets = (stagger: BeatStagger | undefined, particles: InstancedParticle[], random: Random) => {
+  const total = particles.length;
+  if (!stagger || total === 0) return () => 0;
+
+  const { amount, pattern = 'linear' } = stagger;
+  if (pattern === 'random') {
+    const offsets = particles.map(() => random.range(0, amount));
+    return (_particle: InstancedParticle, index: number) => offsets[index];
+  }
+  if (pattern === 'waves') {
+    // Eight interleaved waves, each sweeping through the set
+    const waveDelay = (particle: InstancedParticle) => (particle.index % 8) * 0.015 + (particle.index / total) * 0.18;
+    const longest = 7 * 0.015 + 0.18;
+    return (particle: InstancedParticle) => (waveDelay(particle) / longest) * amount;
+  }
+  return (particle: InstancedParticle) => (particle.index / total) * amount;
+};
+
+/**
+ * Add every beat of `spec` to `tl`. Beats whose target is missing are
+ * skipped, so optional objects (say, a spark a custom model doesn't have) can
+ * be left out of `targets`. The timeline is padded to a duration of 1.
+ */
+export function buildTimelineFromSpec<TTarget extends string, TMotion extends string>(
+  tl: gsap.core.Timeline,
+  spec: TimelineSpec<TTarget, TMotion>,
+  targets: Partial<Record<TTarget, object | null>>,
+  options: TimelineSpecBuildOptions<TMotion>
+): gsap.core.Timeline {
+  if (isDevelopment) {
+    validateTimelineSpec(spec, options.motions).forEach(issue => {
+      console.warn(`Timeline spec: beat "${issue.beat}" - ${issue.message}`);
+    });
+  }
+
+  spec.forEach(beat => {
+    const target = targets[beat.target];
+    if (!target) return;
+
+    const { start, end } = getBeatSpan(beat);
+    const ease = beat.ease ?? DEFAULT_BEAT_EASE;
+
+    if (isInstanceBeat(beat)) {
+      const system = target as InstancedParticleSystem;
+      const motion = options.motions[beat.motion];
+      const random = options.random.fork(beat.id);
+      const total = system.particles.length;
+      system.particles.forEach(particle => motion.prepare?.(particle, random, total));
+
+      const offset = staggerOffsets(beat.stagger, system.particles, random);
+      tweenInstances(tl, system, {
+        duration: end - start - (beat.stagger?.amount ?? 0),
+        ease,
+        stagger: offset,
+        update: (particle, t) => motion.update(particle, t, total)
+      }, start);
+      return;
+    }
+
+    const variant = options.variant ? beat.variants?.[options.variant] : undefined;
+    const to = { ...beat.to, ...variant?.to };
+    const from = beat.from || variant?.from ? { ...beat.from, ...variant?.from } : null;
+
+    if (end === start) {
+      // Sets at 0 are the starting state, so apply them now rather than once the playhead moves
+      tl.set(target, start === 0 ? { ...to, immediateRender: true } : to, start);
+    } else if (from) {
+      // Don't apply `from` until the playhead reaches the beat
+      tl.fromTo(target, from, { ...to, duration: end - start, ease, immediateRender: false }, start);
+    } else {
+      tl.to(target, { ...to, duration: end - start, ease }, start);
+    }
+  });
+
+  // Timeline time is journey progress, whatever the last beat is
+  tl.set({}, {}, 1);
+  return tl;
+}
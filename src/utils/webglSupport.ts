@@ -0,0 +1,30 @@
+/**
+ * webglSupport.ts
+ *
+ * WebGL capability detection. Locked-down browsers (group policies, disabled
+ * GPU acceleration, blocklisted drivers) refuse to create a context, in which
+ * case scenes render their static fallback instead of a blank canvas.
+ */
+
+let cachedResult: boolean | null = null;
+
+/**
+ * Whether a WebGL context can be created in this browser. The probe runs
+ * once and is cached; it always returns false on the server.
+ */
+export function isWebGLAvailable(): boolean {
+  if (typeof window === 'undefined') return false;
+  if (cachedResult !== null) return cachedResult;
+
+  try {
+    const canvas = document.createElement('canvas');
+    const context = (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | null;
+    cachedResult = Boolean(window.WebGLRenderingContext && context);
+    // Hand the probe context back right away, browsers cap live contexts
+    context?.getExtension('WEBGL_lose_context')?.loseContext();
+  } catch {
+    cachedResult = false;
+  }
+
+  return cachedResult;
+}